@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { removeQueuedJobs } from '@/services/queue'
+import { sendJobSignal } from '@/services/jobControl'
+import { notifyJobCancelled } from '@/services/discord'
+
+// PATCH /api/jobs/[id]/cancel - Cancel a job and stop its running tasks
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const job = await prisma.job.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!['PENDING', 'RUNNING', 'PAUSED', 'WAITING_WINDOW'].includes(job.status)) {
+      return NextResponse.json(
+        { success: false, error: 'Only pending, running or paused jobs can be cancelled' },
+        { status: 400 }
+      )
+    }
+
+    // Update job status, unfinished tasks are not run again
+    const updatedJob = await prisma.job.update({
+      where: { id: params.id },
+      data: {
+        status: 'CANCELLED',
+        completedAt: new Date(),
+        windowOpensAt: null,
+      },
+    })
+
+    const unfinishedTasks = await prisma.jobTask.findMany({
+      where: { jobId: params.id, status: { in: ['PENDING', 'RUNNING', 'PAUSED'] } },
+      select: { id: true },
+    })
+    await prisma.jobTask.updateMany({
+      where: { id: { in: unfinishedTasks.map((task) => task.id) } },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    })
+
+    // Stop the running tasks and drop the queued ones
+    await sendJobSignal(params.id, 'cancel')
+    const removed = await removeQueuedJobs(
+      params.id,
+      unfinishedTasks.map((task) => task.id)
+    )
+
+    // Log cancel
+    await prisma.systemLog.create({
+      data: {
+        jobId: params.id,
+        level: 'INFO',
+        event: 'JOB_CANCELLED',
+        message: `Job cancelled by user, ${unfinishedTasks.length} tasks stopped`,
+        metadata: { removedFromQueue: removed },
+      },
+    })
+
+    // Send Discord notification
+    await notifyJobCancelled({
+      id: updatedJob.id,
+      clientName: updatedJob.clientName,
+      scrapedCount: updatedJob.scrapedCount,
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: updatedJob,
+    })
+  } catch (error: any) {
+    console.error('Error cancelling job:', error)
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    )
+  }
+}
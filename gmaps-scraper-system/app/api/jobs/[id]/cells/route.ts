@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+
+// GET /api/jobs/[id]/cells - Grid search cells and coverage per keyword
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const job = await prisma.job.findUnique({
+      where: { id: params.id },
+      select: { id: true, searchArea: true },
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    const cells = await prisma.searchCell.findMany({
+      where: { jobId: params.id },
+      orderBy: [{ keyword: 'asc' }, { depth: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    // Count cells by status for each keyword
+    const coverage: Record<string, Record<string, number>> = {}
+    cells.forEach((cell) => {
+      const counts = (coverage[cell.keyword] = coverage[cell.keyword] || {})
+      counts[cell.status] = (counts[cell.status] || 0) + 1
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        searchArea: job.searchArea,
+        coverage,
+        cells,
+      },
+    })
+  } catch (error: any) {
+    console.error('Error fetching search cells:', error)
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    )
+  }
+}
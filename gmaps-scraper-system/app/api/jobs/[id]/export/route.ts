@@ -1,15 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { generateCSV, getExportPath } from '@/services/export'
+import { generateCSV, generateReviewsCSV, getExportPath } from '@/services/export'
 import { readFileSync } from 'fs'
 
 // GET /api/jobs/[id]/export - Export job data to CSV
+// ?type=reviews exports the scraped reviews instead of the places
 export async function GET(
   request: NextRequest,
   { params }: { params: { id: string } }
 ) {
   try {
+    const type = request.nextUrl.searchParams.get('type') || 'places'
+
+    if (type !== 'places' && type !== 'reviews') {
+      return NextResponse.json(
+        { success: false, error: 'Invalid export type. Use "places" or "reviews".' },
+        { status: 400 }
+      )
+    }
+
     // Generate CSV
-    const filename = await generateCSV({ jobId: params.id })
+    const filename =
+      type === 'reviews'
+        ? await generateReviewsCSV({ jobId: params.id })
+        : await generateCSV({ jobId: params.id })
 
     // Get file path
     const filepath = await getExportPath(filename)
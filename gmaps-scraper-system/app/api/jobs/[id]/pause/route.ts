@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { notifyJobPaused } from '@/services/discord'
+import { sendJobSignal } from '@/services/jobControl'
 
 // PATCH /api/jobs/[id]/pause - Pause a running job
 export async function PATCH(
@@ -19,7 +20,7 @@ export async function PATCH(
       )
     }
 
-    if (job.status !== 'RUNNING') {
+    if (job.status !== 'RUNNING' && job.status !== 'WAITING_WINDOW') {
       return NextResponse.json(
         { success: false, error: 'Job is not running' },
         { status: 400 }
@@ -32,9 +33,13 @@ export async function PATCH(
       data: {
         status: 'PAUSED',
         pauseReason: 'Manually paused by user',
+        windowOpensAt: null,
       },
     })
 
+    // Stop the running tasks now instead of after their current place
+    await sendJobSignal(params.id, 'pause')
+
     // Log pause
     await prisma.systemLog.create({
       data: {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { resumeScrapeJob } from '@/services/queue'
+import { scrapeJobData } from '@/services/jobConfig'
 
 // PATCH /api/jobs/[id]/resume - Resume a paused job
 export async function PATCH(
@@ -35,29 +36,47 @@ export async function PATCH(
       },
     })
 
+    // Tasks that are not finished continue from their checkpoint
+    const unfinishedTasks = await prisma.jobTask.findMany({
+      where: { jobId: params.id, status: { not: 'COMPLETED' } },
+      orderBy: { index: 'asc' },
+      select: {
+        keywordIndex: true,
+        locationIndex: true,
+        keyword: true,
+        location: true,
+        placeLinks: true,
+        lastPlaceLink: true,
+      },
+    })
+
     // Log resume
     await prisma.systemLog.create({
       data: {
         jobId: params.id,
         level: 'INFO',
         event: 'JOB_RESUMED',
-        message: 'Job resumed by user',
+        message: `Job resumed by user, ${unfinishedTasks.length} tasks left`,
+        metadata: {
+          checkpoints: unfinishedTasks.map((task) => {
+            const placeLinks = Array.isArray(task.placeLinks) ? task.placeLinks : []
+            return {
+              keywordIndex: task.keywordIndex,
+              locationIndex: task.locationIndex,
+              keyword: task.keyword,
+              location: task.location,
+              placesProcessed: task.lastPlaceLink
+                ? placeLinks.indexOf(task.lastPlaceLink) + 1
+                : 0,
+              placesCollected: placeLinks.length,
+            }
+          }),
+        },
       },
     })
 
     // Add job back to queue with resume data
-    await resumeScrapeJob({
-      jobId: job.id,
-      clientName: job.clientName,
-      keywords: job.keywords as string[],
-      locations: job.locations as string[] | undefined,
-      maxResultsPerKeyword: job.maxResultsPerKeyword,
-      minDelay: job.minDelay,
-      maxDelay: job.maxDelay,
-      cooldownAfter: job.cooldownAfter,
-      cooldownDuration: job.cooldownDuration,
-      resumeFromIndex: job.currentKeywordIndex,
-    })
+    await resumeScrapeJob(scrapeJobData(job))
 
     return NextResponse.json({
       success: true,
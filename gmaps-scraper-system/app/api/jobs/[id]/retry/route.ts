@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { addRetryJob } from '@/services/queue'
+import { RETRYABLE_JOB_STATUSES } from '@/services/retry'
+
+// POST /api/jobs/[id]/retry - Retry the unresolved failures of a job, or one failure with { failureId }
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const failureId: string | undefined = body.failureId
+
+    const job = await prisma.job.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: 'Job not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!(RETRYABLE_JOB_STATUSES as readonly string[]).includes(job.status)) {
+      return NextResponse.json(
+        { success: false, error: 'Failures can be retried once the job has completed or failed' },
+        { status: 400 }
+      )
+    }
+
+    // Manual retries skip the backoff and the retry limit
+    const failures = await prisma.failedScrape.findMany({
+      where: {
+        jobId: params.id,
+        resolvedAt: null,
+        ...(failureId ? { id: failureId } : {}),
+      },
+      select: { id: true, retryCount: true },
+    })
+
+    if (failureId && failures.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Failure not found or already resolved' },
+        { status: 404 }
+      )
+    }
+
+    for (const failure of failures) {
+      await addRetryJob(failure.id, failure.retryCount)
+    }
+
+    await prisma.systemLog.create({
+      data: {
+        jobId: params.id,
+        level: 'INFO',
+        event: 'RETRY_REQUESTED',
+        message: `Retry of ${failures.length} failed scrapes requested by user`,
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: { queued: failures.length },
+    })
+  } catch (error: any) {
+    console.error('Error retrying failures:', error)
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
+import { removeQueuedJobs } from '@/services/queue'
+import { sendJobSignal } from '@/services/jobControl'
+import { getQueuePositions } from '@/services/queuePosition'
 
 // GET /api/jobs/[id] - Get job details
 export async function GET(
@@ -12,9 +15,11 @@ export async function GET(
       include: {
         scrapedPlaces: {
           take: 10,
-          orderBy: { scrapedAt: 'desc' },
+          orderBy: { firstSeenAt: 'desc' },
+          include: { scrapedPlace: true },
         },
         failedScrapes: {
+          where: { resolvedAt: null },
           take: 10,
           orderBy: { failedAt: 'desc' },
         },
@@ -22,10 +27,16 @@ export async function GET(
           take: 20,
           orderBy: { createdAt: 'desc' },
         },
+        tasks: {
+          orderBy: { index: 'asc' },
+        },
+        schedule: {
+          select: { id: true, name: true },
+        },
         _count: {
           select: {
             scrapedPlaces: true,
-            failedScrapes: true,
+            failedScrapes: { where: { resolvedAt: null } },
             systemLogs: true,
           },
         },
@@ -39,9 +50,20 @@ export async function GET(
       )
     }
 
+    const positions = await getQueuePositions()
+
+    // Places with where and when this job found them
+    const scrapedPlaces = job.scrapedPlaces.map(({ scrapedPlace, ...link }) => ({
+      ...scrapedPlace,
+      keyword: link.keyword,
+      location: link.location,
+      searchRank: link.searchRank,
+      firstSeenAt: link.firstSeenAt,
+    }))
+
     return NextResponse.json({
       success: true,
-      data: job,
+      data: { ...job, scrapedPlaces, queuePosition: positions.get(job.id) || null },
     })
   } catch (error: any) {
     console.error('Error fetching job:', error)
@@ -70,9 +92,19 @@ export async function DELETE(
       )
     }
 
-    // Delete all related data (foreign keys) first
+    // Stop tasks still running or queued for the job
+    if (['PENDING', 'RUNNING', 'PAUSED', 'WAITING_WINDOW'].includes(job.status)) {
+      const tasks = await prisma.jobTask.findMany({ where: { jobId: id }, select: { id: true } })
+      await sendJobSignal(id, 'cancel')
+      await removeQueuedJobs(id, tasks.map((task) => task.id))
+    }
+
+    // Delete all related data (foreign keys) first, places stay stored while other jobs link to them
     await prisma.$transaction([
-      prisma.scrapedPlace.deleteMany({ where: { jobId: id } }),
+      prisma.scrapedPlace.deleteMany({
+        where: { jobs: { some: { jobId: id }, every: { jobId: id } } },
+      }),
+      prisma.jobPlace.deleteMany({ where: { jobId: id } }),
       prisma.failedScrape.deleteMany({ where: { jobId: id } }),
       prisma.systemLog.deleteMany({ where: { jobId: id } }),
       prisma.job.delete({ where: { id } }),
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
-import { addScrapeJob } from '@/services/queue'
+import { parseJobConfig, createJob } from '@/services/jobConfig'
+import { getQueuePositions } from '@/services/queuePosition'
 
 // GET /api/jobs - List all jobs
 export async function GET(request: NextRequest) {
@@ -30,9 +31,11 @@ export async function GET(request: NextRequest) {
       prisma.job.count({ where }),
     ])
 
+    const positions = await getQueuePositions()
+
     return NextResponse.json({
       success: true,
-      data: jobs,
+      data: jobs.map((job) => ({ ...job, queuePosition: positions.get(job.id) || null })),
       pagination: {
         total,
         limit,
@@ -53,76 +56,15 @@ export async function POST(request: NextRequest) {
   try {
     const body = await request.json()
 
-    const {
-      clientName,
-      keywords,
-      locations,
-      maxResultsPerKeyword = 500,
-      minDelay = 2000, // Optimized for speed with 3 concurrent workers
-      maxDelay = 4000, // Optimized for speed with 3 concurrent workers
-      cooldownAfter = 50,
-      cooldownDuration = 60000, // Optimized for better throughput
-      fieldsToScrape = ['phone', 'rating', 'city', 'businessInfo', 'coordinates'], // Default fields
-    } = body
-
-    // Validation
-    if (!clientName || !keywords || !Array.isArray(keywords) || keywords.length === 0) {
+    const parsed = parseJobConfig(body)
+    if ('error' in parsed) {
       return NextResponse.json(
-        { success: false, error: 'Invalid request. clientName and keywords are required.' },
+        { success: false, error: parsed.error },
         { status: 400 }
       )
     }
 
-    // Estimate duration (rough calculation)
-    const avgDelay = (minDelay + maxDelay) / 2 / 1000 // seconds
-    const cooldownsNeeded = Math.floor((keywords.length * maxResultsPerKeyword) / cooldownAfter)
-    const totalCooldownTime = (cooldownsNeeded * cooldownDuration) / 1000 // seconds
-    const scrapingTime = keywords.length * maxResultsPerKeyword * avgDelay
-    const estimatedDuration = Math.round(scrapingTime + totalCooldownTime) // seconds
-
-    // Create job in database
-    const job = await prisma.job.create({
-      data: {
-        clientName,
-        keywords,
-        locations: locations || [],
-        maxResultsPerKeyword,
-        minDelay,
-        maxDelay,
-        cooldownAfter,
-        cooldownDuration,
-        fieldsToScrape,
-        estimatedDuration,
-        status: 'PENDING',
-      },
-    })
-
-    // Log job creation
-    await prisma.systemLog.create({
-      data: {
-        jobId: job.id,
-        level: 'INFO',
-        event: 'JOB_CREATED',
-        message: `Job created for client: ${clientName}`,
-        metadata: {
-          keywords: keywords.length,
-          maxResults: maxResultsPerKeyword,
-        },
-      },
-    })
-
-    // Add job to queue
-    await addScrapeJob({
-      jobId: job.id,
-      clientName,
-      keywords,
-      locations,
-      maxResultsPerKeyword,
-      minDelay,
-      maxDelay,
-      cooldownAfter,
-      cooldownDuration,
-    })
+    const job = await createJob(parsed.config)
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { setScheduleRepeat, removeScheduleRepeat } from '@/services/queue'
+import { parseJobConfig } from '@/services/jobConfig'
+import { validateSchedule, nextRunTime } from '@/services/schedule'
+
+// GET /api/schedules/[id] - Get a schedule with all the jobs it created
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const schedule = await prisma.schedule.findUnique({
+      where: { id: params.id },
+      include: {
+        jobs: {
+          orderBy: { createdAt: 'desc' },
+          select: {
+            id: true,
+            status: true,
+            scrapedCount: true,
+            failedCount: true,
+            createdAt: true,
+            completedAt: true,
+          },
+        },
+      },
+    })
+
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+    })
+  } catch (error: any) {
+    console.error('Error fetching schedule:', error)
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH /api/schedules/[id] - Update the name, cron expression, timezone, job config or enabled flag
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const body = await request.json()
+
+    const existing = await prisma.schedule.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found' },
+        { status: 404 }
+      )
+    }
+
+    const {
+      name = existing.name,
+      cron = existing.cron,
+      timezone = existing.timezone,
+      enabled = existing.enabled,
+    } = body
+
+    const scheduleError = validateSchedule(cron, timezone)
+    if (scheduleError) {
+      return NextResponse.json(
+        { success: false, error: scheduleError },
+        { status: 400 }
+      )
+    }
+
+    let jobConfig = existing.jobConfig
+    if (body.jobConfig !== undefined) {
+      const parsed = parseJobConfig(body.jobConfig)
+      if ('error' in parsed) {
+        return NextResponse.json(
+          { success: false, error: `Invalid jobConfig: ${parsed.error}` },
+          { status: 400 }
+        )
+      }
+      jobConfig = parsed.config as any
+    }
+
+    const schedule = await prisma.schedule.update({
+      where: { id: params.id },
+      data: {
+        name,
+        cron,
+        timezone,
+        enabled: Boolean(enabled),
+        jobConfig: jobConfig as any,
+        nextRunAt: enabled ? nextRunTime(cron, timezone) : null,
+      },
+    })
+
+    await setScheduleRepeat(schedule)
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+    })
+  } catch (error: any) {
+    console.error('Error updating schedule:', error)
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/schedules/[id] - Delete a schedule, the jobs it created are kept
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const schedule = await prisma.schedule.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!schedule) {
+      return NextResponse.json(
+        { success: false, error: 'Schedule not found' },
+        { status: 404 }
+      )
+    }
+
+    await removeScheduleRepeat(params.id)
+    await prisma.schedule.delete({ where: { id: params.id } })
+
+    return NextResponse.json({
+      success: true,
+      message: 'Schedule deleted, its jobs are kept',
+    })
+  } catch (error: any) {
+    console.error('Error deleting schedule:', error)
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    )
+  }
+}
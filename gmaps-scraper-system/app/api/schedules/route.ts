@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/prisma'
+import { setScheduleRepeat } from '@/services/queue'
+import { parseJobConfig } from '@/services/jobConfig'
+import { validateSchedule, nextRunTime } from '@/services/schedule'
+
+// GET /api/schedules - List all schedules with their latest runs
+export async function GET() {
+  try {
+    const schedules = await prisma.schedule.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: {
+        jobs: {
+          orderBy: { createdAt: 'desc' },
+          take: 5,
+          select: {
+            id: true,
+            status: true,
+            scrapedCount: true,
+            createdAt: true,
+          },
+        },
+        _count: {
+          select: { jobs: true },
+        },
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: schedules,
+    })
+  } catch (error: any) {
+    console.error('Error fetching schedules:', error)
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/schedules - Create a schedule that runs a job on a cron expression
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json()
+    const { name, cron, timezone = 'UTC', enabled = true, jobConfig } = body
+
+    // Validation
+    if (!name || !jobConfig) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid request. name, cron and jobConfig are required.' },
+        { status: 400 }
+      )
+    }
+
+    const scheduleError = validateSchedule(cron, timezone)
+    if (scheduleError) {
+      return NextResponse.json(
+        { success: false, error: scheduleError },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseJobConfig(jobConfig)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: `Invalid jobConfig: ${parsed.error}` },
+        { status: 400 }
+      )
+    }
+
+    const schedule = await prisma.schedule.create({
+      data: {
+        name,
+        cron,
+        timezone,
+        enabled: Boolean(enabled),
+        jobConfig: parsed.config as any,
+        nextRunAt: enabled ? nextRunTime(cron, timezone) : null,
+      },
+    })
+
+    await setScheduleRepeat(schedule)
+
+    // Log schedule creation
+    await prisma.systemLog.create({
+      data: {
+        level: 'INFO',
+        event: 'SCHEDULE_CREATED',
+        message: `Schedule ${name} created for client: ${parsed.config.clientName}`,
+        metadata: { scheduleId: schedule.id, cron, timezone },
+      },
+    })
+
+    return NextResponse.json({
+      success: true,
+      data: schedule,
+    })
+  } catch (error: any) {
+    console.error('Error creating schedule:', error)
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    )
+  }
+}
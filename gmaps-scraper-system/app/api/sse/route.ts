@@ -1,12 +1,39 @@
 import { NextRequest } from 'next/server'
-import { jobEvents } from '@/services/queue'
+import {
+  compareEventIds,
+  readJobEvents,
+  subscribeJobEvents,
+  JobEvent,
+  JobEventName,
+} from '@/services/jobEvents'
 import { prisma } from '@/lib/prisma'
 
+// Message types the dashboard expects for each job event
+const SSE_EVENT_TYPES: Record<JobEventName, string> = {
+  'job:keyword-started': 'keyword-started',
+  'job:place-saved': 'place-saved',
+  'job:captcha': 'captcha',
+  'job:cooldown-started': 'cooldown-started',
+  'job:cooldown-ended': 'cooldown-ended',
+  'job:browser-restarted': 'browser-restarted',
+  'job:completed': 'completed',
+  'job:failed': 'failed',
+}
+
+// Most events replayed to a reconnecting client
+const REPLAY_LIMIT = 1000
+
+// Recent events a new connection for one job starts with, for its activity feed
+const JOB_HISTORY_LIMIT = 50
+
 // Server-Sent Events endpoint for real-time updates
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams
   const jobId = searchParams.get('jobId')
 
+  // Sent by EventSource when it reconnects, the events after it are replayed
+  const lastEventId = request.headers.get('last-event-id')
+
   // Create a new ReadableStream for SSE
   const stream = new ReadableStream({
     start(controller) {
@@ -20,49 +47,52 @@ export async function GET(request: NextRequest) {
         controller.enqueue(encoder.encode('data: {"type":"keepalive"}\n\n'))
       }, 30000)
 
-      // Listen for job progress updates
-      const handleProgress = (data: any) => {
-        if (!jobId || data.jobId === jobId) {
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                type: 'progress',
-                ...data,
-              })}\n\n`
-            )
-          )
-        }
-      }
+      // Job events carry their stream ID, so a reconnect can continue after the last one received
+      let lastSentId = lastEventId
+      const sendEvent = (jobEvent: JobEvent) => {
+        // Live events that arrived during the replay, or were replayed already
+        if (lastSentId && compareEventIds(jobEvent.id, lastSentId) <= 0) return
+        lastSentId = jobEvent.id
 
-      const handleCompleted = (data: any) => {
-        if (!jobId || data.jobId === jobId) {
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                type: 'completed',
-                ...data,
-              })}\n\n`
-            )
+        controller.enqueue(
+          encoder.encode(
+            `id: ${jobEvent.id}\ndata: ${JSON.stringify({
+              type: SSE_EVENT_TYPES[jobEvent.event],
+              ...jobEvent.data,
+            })}\n\n`
           )
-        }
+        )
       }
 
-      const handleFailed = (data: any) => {
-        if (!jobId || data.jobId === jobId) {
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({
-                type: 'failed',
-                ...data,
-              })}\n\n`
-            )
-          )
+      // Job events published by the workers, held back until the replay is sent
+      let replaying = true
+      const heldBack: JobEvent[] = []
+      const unsubscribe = subscribeJobEvents((jobEvent) => {
+        if (jobId && jobEvent.data.jobId !== jobId) return
+        if (replaying) {
+          heldBack.push(jobEvent)
+        } else if (!request.signal.aborted) {
+          sendEvent(jobEvent)
         }
-      }
+      })
 
-      jobEvents.on('job:progress', handleProgress)
-      jobEvents.on('job:completed', handleCompleted)
-      jobEvents.on('job:failed', handleFailed)
+      const replayLimit = lastEventId ? REPLAY_LIMIT : jobId ? JOB_HISTORY_LIMIT : 0
+      const replay = replayLimit > 0
+        ? readJobEvents({ jobId, after: lastEventId, limit: replayLimit })
+        : Promise.resolve([])
+
+      replay
+        .catch((error) => {
+          console.error('Error replaying job events:', error)
+          return []
+        })
+        .then((missed) => {
+          replaying = false
+          if (request.signal.aborted) return
+          missed.forEach(sendEvent)
+          heldBack.forEach(sendEvent)
+          heldBack.length = 0
+        })
 
       // Poll for job updates every 5 seconds
       const pollInterval = setInterval(async () => {
@@ -77,11 +107,34 @@ export async function GET(request: NextRequest) {
                 failedCount: true,
                 currentKeyword: true,
                 currentKeywordIndex: true,
-                keywords: true,
+                jobType: true,
+                placeInputs: true,
               },
             })
 
+            // Progress is the share of the job's tasks that have finished,
+            // place lists run as one task and report the place they are at
+            const tasks = await prisma.jobTask.groupBy({
+              by: ['status'],
+              where: { jobId },
+              _count: true,
+            })
+            const totalTasks = tasks.reduce((sum, group) => sum + group._count, 0)
+            const finishedTasks = tasks
+              .filter((group) => group.status === 'COMPLETED' || group.status === 'FAILED')
+              .reduce((sum, group) => sum + group._count, 0)
+
             if (job) {
+              const places = Array.isArray(job.placeInputs) ? job.placeInputs.length : 0
+              const progress =
+                job.jobType === 'PLACE_LIST'
+                  ? places > 0
+                    ? (job.currentKeywordIndex / places) * 100
+                    : 0
+                  : totalTasks > 0
+                  ? (finishedTasks / totalTasks) * 100
+                  : 0
+
               controller.enqueue(
                 encoder.encode(
                   `data: ${JSON.stringify({
@@ -91,10 +144,7 @@ export async function GET(request: NextRequest) {
                     scrapedCount: job.scrapedCount,
                     failedCount: job.failedCount,
                     currentKeyword: job.currentKeyword,
-                    progress:
-                      job.currentKeywordIndex && Array.isArray(job.keywords)
-                        ? (job.currentKeywordIndex / job.keywords.length) * 100
-                        : 0,
+                    progress,
                   })}\n\n`
                 )
               )
@@ -109,9 +159,7 @@ export async function GET(request: NextRequest) {
       request.signal.addEventListener('abort', () => {
         clearInterval(keepaliveInterval)
         clearInterval(pollInterval)
-        jobEvents.off('job:progress', handleProgress)
-        jobEvents.off('job:completed', handleCompleted)
-        jobEvents.off('job:failed', handleFailed)
+        unsubscribe()
         controller.close()
       })
     },
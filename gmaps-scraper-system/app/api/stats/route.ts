@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/prisma'
 import { getQueueStats } from '@/services/queue'
+import { getQueuePositions } from '@/services/queuePosition'
 
 // GET /api/stats - Get dashboard statistics
 export async function GET(request: NextRequest) {
@@ -15,6 +16,7 @@ export async function GET(request: NextRequest) {
       totalJobs,
       completedJobs,
       failedJobs,
+      waitingJobs,
       todayScrapedCount,
       totalScrapedCount,
     ] = await Promise.all([
@@ -39,30 +41,36 @@ export async function GET(request: NextRequest) {
       prisma.job.count({
         where: { status: 'FAILED' },
       }),
-      prisma.scrapedPlace.count({
+      prisma.job.count({
+        where: { status: 'WAITING_WINDOW' },
+      }),
+      // Places found by jobs, a place found by several jobs counts once per job like the job counts
+      prisma.jobPlace.count({
         where: {
-          scrapedAt: {
+          firstSeenAt: {
             gte: startOfToday,
           },
         },
       }),
-      prisma.scrapedPlace.count(),
+      prisma.jobPlace.count(),
     ])
 
     // Get queue stats
     const queueStats = await getQueueStats()
 
-    // Get active jobs details
+    // Get active jobs details, including jobs waiting for their scraping window
     const activeJobsList = await prisma.job.findMany({
       where: {
         status: {
-          in: ['RUNNING', 'PENDING'],
+          in: ['RUNNING', 'PENDING', 'WAITING_WINDOW'],
         },
       },
       orderBy: { updatedAt: 'desc' },
       take: 5,
     })
 
+    const positions = await getQueuePositions()
+
     // Calculate system health
     const systemStatus =
       queueStats.active > 0 ? 'active' : queueStats.waiting > 0 ? 'waiting' : 'idle'
@@ -76,6 +84,7 @@ export async function GET(request: NextRequest) {
           total: totalJobs,
           completed: completedJobs,
           failed: failedJobs,
+          waitingForWindow: waitingJobs,
         },
         places: {
           today: todayScrapedCount,
@@ -85,7 +94,10 @@ export async function GET(request: NextRequest) {
         system: {
           status: systemStatus,
         },
-        activeJobs: activeJobsList,
+        activeJobs: activeJobsList.map((job) => ({
+          ...job,
+          queuePosition: positions.get(job.id) || null,
+        })),
       },
     })
   } catch (error: any) {
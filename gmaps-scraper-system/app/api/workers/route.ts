@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import { listWorkers } from '@/services/workerRegistry'
+
+// GET /api/workers - List scrape workers with their running tasks and last heartbeat
+export async function GET() {
+  try {
+    const workers = await listWorkers()
+
+    return NextResponse.json({
+      success: true,
+      data: workers,
+    })
+  } catch (error: any) {
+    console.error('Error fetching workers:', error)
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: 500 }
+    )
+  }
+}
@@ -7,16 +7,23 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
-import { ArrowLeft, Download, Pause, Play, RefreshCw, Trash2 } from 'lucide-react'
-import { formatDistanceToNow } from 'date-fns'
+import { ArrowLeft, Download, Pause, Play, RefreshCw, Trash2, XCircle } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
 
 interface JobDetail {
   id: string
   clientName: string
   status: string
+  jobType: 'SEARCH' | 'PLACE_LIST'
   keywords: string[]
+  placeInputs: string[] | null
   locations: string[] | null
   maxResultsPerKeyword: number
+  searchArea: { type: string } | null
+  gridCellSizeKm: number
+  fieldsToScrape: string[] | null
   scrapedCount: number
   failedCount: number
   currentKeyword: string | null
@@ -25,8 +32,19 @@ interface JobDetail {
   completedAt: string | null
   estimatedDuration: number | null
   pauseReason: string | null
+  workerLostAt: string | null
   errorMessage: string | null
   createdAt: string
+  scrapeWindows: Array<{ days: number[]; start: string; end: string }> | null
+  windowTimezone: string
+  windowOpensAt: string | null
+  priority: 'HIGH' | 'NORMAL' | 'LOW'
+  queuePosition: {
+    position: number
+    waitingTasks: number
+    expectedStartAt: string
+  } | null
+  schedule: { id: string; name: string } | null
   scrapedPlaces: Array<{
     id: string
     name: string
@@ -34,15 +52,33 @@ interface JobDetail {
     rating: number | null
     phone: string | null
     website: string | null
-    scrapedAt: string
+    firstSeenAt: string
   }>
   failedScrapes: Array<{
     id: string
-    keyword: string
+    keyword: string | null
     location: string | null
+    placeInput: string | null
+    placeName: string | null
     errorType: string
     errorMessage: string
+    retryCount: number
+    maxRetries: number
     failedAt: string
+    lastRetryAt: string | null
+  }>
+  tasks: Array<{
+    id: string
+    index: number
+    keyword: string | null
+    location: string | null
+    status: string
+    scrapedCount: number
+    failedCount: number
+    attempts: number
+    errorMessage: string | null
+    placeLinks: string[] | null
+    lastPlaceLink: string | null
   }>
   systemLogs: Array<{
     id: string
@@ -57,13 +93,124 @@ interface JobDetail {
   }
 }
 
+interface SearchCell {
+  id: string
+  keyword: string
+  depth: number
+  south: number
+  west: number
+  north: number
+  east: number
+  status: string
+  resultsCount: number | null
+  newPlaces: number
+}
+
+interface GridCoverage {
+  coverage: Record<string, Record<string, number>>
+  cells: SearchCell[]
+}
+
+const CELL_COLORS: Record<string, string> = {
+  PENDING: '#e5e7eb',
+  RUNNING: '#93c5fd',
+  DONE: '#86efac',
+  SUBDIVIDED: 'none',
+  FAILED: '#fca5a5',
+}
+
+// A job event received over SSE, id is its stream ID
+interface ActivityItem {
+  id: string
+  type: string
+  [field: string]: any
+}
+
+// Most activity items kept on the page
+const MAX_ACTIVITY = 100
+
+const ACTIVITY_COLORS: Record<string, string> = {
+  'keyword-started': 'bg-blue-400',
+  'place-saved': 'bg-green-400',
+  captcha: 'bg-red-500',
+  'cooldown-started': 'bg-yellow-400',
+  'cooldown-ended': 'bg-yellow-400',
+  'browser-restarted': 'bg-gray-400',
+  completed: 'bg-green-600',
+  failed: 'bg-red-600',
+}
+
+function describeActivity(item: ActivityItem): string {
+  switch (item.type) {
+    case 'keyword-started':
+      return item.keyword
+        ? `Started "${item.keyword}"${item.location ? ` in ${item.location}` : ''}`
+        : 'Started the place list'
+    case 'place-saved':
+      return `Saved ${item.placeName} (${item.scrapedCount.toLocaleString()} total)`
+    case 'captcha':
+      return `CAPTCHA detected during ${item.task}`
+    case 'cooldown-started':
+      return `Cooling down for ${Math.round(item.durationMs / 1000)} seconds`
+    case 'cooldown-ended':
+      return 'Cooldown ended, scraping again'
+    case 'browser-restarted':
+      return `Browser restarted after ${item.placesInSession} places`
+    case 'completed':
+      return 'Job completed'
+    case 'failed':
+      return `Job failed: ${item.error}`
+    default:
+      return item.type
+  }
+}
+
+// Draw the cells of one keyword inside their bounding box, split cells are outlined under their quadrants
+function CoverageMap({ cells }: { cells: SearchCell[] }) {
+  if (cells.length === 0) return null
+
+  const south = Math.min(...cells.map((c) => c.south))
+  const west = Math.min(...cells.map((c) => c.west))
+  const north = Math.max(...cells.map((c) => c.north))
+  const east = Math.max(...cells.map((c) => c.east))
+  const width = 400
+  const height = Math.max(100, Math.min(400, (width * (north - south)) / (east - west)))
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full max-w-md border rounded bg-white">
+      {[...cells]
+        .sort((a, b) => a.depth - b.depth)
+        .map((cell) => (
+          <rect
+            key={cell.id}
+            x={((cell.west - west) / (east - west)) * width}
+            y={((north - cell.north) / (north - south)) * height}
+            width={((cell.east - cell.west) / (east - west)) * width}
+            height={((cell.north - cell.south) / (north - south)) * height}
+            fill={CELL_COLORS[cell.status] || '#e5e7eb'}
+            stroke="#6b7280"
+            strokeWidth={0.5}
+          >
+            <title>
+              {cell.status}
+              {cell.resultsCount !== null ? ` - ${cell.resultsCount} results` : ''}
+              {cell.newPlaces > 0 ? `, ${cell.newPlaces} new places` : ''}
+            </title>
+          </rect>
+        ))}
+    </svg>
+  )
+}
+
 export default function JobDetailPage() {
   const params = useParams()
   const router = useRouter()
   const jobId = params.id as string
   const [job, setJob] = useState<JobDetail | null>(null)
+  const [grid, setGrid] = useState<GridCoverage | null>(null)
   const [loading, setLoading] = useState(true)
   const [actionLoading, setActionLoading] = useState(false)
+  const [activity, setActivity] = useState<ActivityItem[]>([])
 
   useEffect(() => {
     fetchJob()
@@ -71,6 +218,25 @@ export default function JobDetailPage() {
     return () => clearInterval(interval)
   }, [jobId])
 
+  // Live activity, the connection starts with the job's recent events and replays missed ones when it reconnects
+  useEffect(() => {
+    const eventSource = new EventSource(`/api/sse?jobId=${jobId}`)
+
+    eventSource.onmessage = (event) => {
+      const data = JSON.parse(event.data)
+      if (!(data.type in ACTIVITY_COLORS)) return
+
+      const id = event.lastEventId
+      setActivity((prev) =>
+        [{ id, ...data }, ...prev.filter((item) => item.id !== id)].slice(0, MAX_ACTIVITY)
+      )
+    }
+
+    return () => {
+      eventSource.close()
+    }
+  }, [jobId])
+
   const fetchJob = async () => {
     try {
       const response = await fetch(`/api/jobs/${jobId}`)
@@ -78,6 +244,15 @@ export default function JobDetailPage() {
 
       if (data.success) {
         setJob(data.data)
+
+        // Grid jobs also show which cells have been searched
+        if (data.data.searchArea) {
+          const cellsResponse = await fetch(`/api/jobs/${jobId}/cells`)
+          const cellsData = await cellsResponse.json()
+          if (cellsData.success) {
+            setGrid(cellsData.data)
+          }
+        }
       }
     } catch (error) {
       console.error('Error fetching job:', error)
@@ -120,6 +295,52 @@ export default function JobDetailPage() {
     }
   }
 
+  // Retry every unresolved failure of the job, or a single one
+  const handleRetry = async (failureId?: string) => {
+    setActionLoading(true)
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ failureId }),
+      })
+      const data = await response.json()
+      if (data.success) {
+        await fetchJob()
+      } else {
+        alert('Failed to retry: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error retrying failures:', error)
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!confirm('Are you sure you want to cancel this job? Running tasks are stopped and the job can not be resumed.')) {
+      return
+    }
+
+    setActionLoading(true)
+    try {
+      const response = await fetch(`/api/jobs/${jobId}/cancel`, {
+        method: 'PATCH',
+      })
+      const data = await response.json()
+      if (data.success) {
+        await fetchJob()
+      } else {
+        alert('Failed to cancel job: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error cancelling job:', error)
+      alert('Failed to cancel job')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
   const handleDelete = async () => {
     if (!confirm('Are you sure you want to delete this job? This will permanently delete all scraped data and cannot be undone.')) {
       return
@@ -151,11 +372,13 @@ export default function JobDetailPage() {
       PAUSED: 'bg-orange-100 text-orange-800',
       COMPLETED: 'bg-green-100 text-green-800',
       FAILED: 'bg-red-100 text-red-800',
+      CANCELLED: 'bg-gray-100 text-gray-800',
+      WAITING_WINDOW: 'bg-purple-100 text-purple-800',
     }
 
     return (
       <span className={`px-3 py-1 rounded-full text-sm font-semibold ${colors[status] || ''}`}>
-        {status}
+        {status === 'WAITING_WINDOW' ? 'WAITING FOR WINDOW' : status}
       </span>
     )
   }
@@ -176,11 +399,14 @@ export default function JobDetailPage() {
     )
   }
 
-  const progress =
-    job.keywords.length > 0
-      ? ((job.currentKeywordIndex + 1) / job.keywords.length) * 100
-      : 0
-  const totalExpected = job.keywords.length * job.maxResultsPerKeyword
+  // Place list jobs run as one task that steps through their places, searches step through tasks
+  const isPlaceList = job.jobType === 'PLACE_LIST'
+  const totalPlaces = job.placeInputs?.length || 0
+  const totalExpected = isPlaceList ? totalPlaces : job.keywords.length * job.maxResultsPerKeyword
+  const canRetry = job.status === 'COMPLETED' || job.status === 'FAILED'
+  const finishedTasks = job.tasks.filter(
+    (task) => task.status === 'COMPLETED' || task.status === 'FAILED'
+  ).length
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -197,12 +423,22 @@ export default function JobDetailPage() {
               </Link>
               <div>
                 <h1 className="text-3xl font-bold text-gray-900">{job.clientName}</h1>
-                <p className="mt-1 text-sm text-gray-500">Job ID: {job.id}</p>
+                <p className="mt-1 text-sm text-gray-500">
+                  Job ID: {job.id}
+                  {job.schedule && (
+                    <>
+                      {' · '}
+                      <Link href="/dashboard/schedules" className="text-blue-600 hover:underline">
+                        Run of schedule {job.schedule.name}
+                      </Link>
+                    </>
+                  )}
+                </p>
               </div>
             </div>
             <div className="flex items-center gap-3">
               {getStatusBadge(job.status)}
-              {job.status === 'RUNNING' && (
+              {(job.status === 'RUNNING' || job.status === 'WAITING_WINDOW') && (
                 <Button
                   onClick={handlePause}
                   disabled={actionLoading}
@@ -222,6 +458,16 @@ export default function JobDetailPage() {
                   Resume
                 </Button>
               )}
+              {['PENDING', 'RUNNING', 'PAUSED', 'WAITING_WINDOW'].includes(job.status) && (
+                <Button
+                  onClick={handleCancel}
+                  disabled={actionLoading}
+                  variant="outline"
+                >
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Cancel
+                </Button>
+              )}
               {job.status === 'COMPLETED' && job._count.scrapedPlaces > 0 && (
                 <a href={`/api/jobs/${job.id}/export`} download>
                   <Button>
@@ -230,6 +476,16 @@ export default function JobDetailPage() {
                   </Button>
                 </a>
               )}
+              {job.status === 'COMPLETED' &&
+                job._count.scrapedPlaces > 0 &&
+                job.fieldsToScrape?.includes('reviews') && (
+                  <a href={`/api/jobs/${job.id}/export?type=reviews`} download>
+                    <Button variant="outline">
+                      <Download className="w-4 h-4 mr-2" />
+                      Download Reviews CSV
+                    </Button>
+                  </a>
+                )}
               <Button
                 onClick={handleDelete}
                 disabled={actionLoading}
@@ -274,9 +530,11 @@ export default function JobDetailPage() {
                   <p className="text-2xl font-bold">{job.failedCount}</p>
                 </div>
                 <div className="bg-gray-50 p-4 rounded-lg">
-                  <p className="text-sm text-gray-600">Keywords</p>
+                  <p className="text-sm text-gray-600">{isPlaceList ? 'Places' : 'Tasks'}</p>
                   <p className="text-2xl font-bold">
-                    {job.currentKeywordIndex + 1} / {job.keywords.length}
+                    {isPlaceList
+                      ? `${job.currentKeywordIndex + 1} / ${totalPlaces}`
+                      : `${finishedTasks} / ${job.tasks.length}`}
                   </p>
                 </div>
                 <div className="bg-gray-50 p-4 rounded-lg">
@@ -289,6 +547,31 @@ export default function JobDetailPage() {
                 </div>
               </div>
 
+              {job.queuePosition && (
+                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
+                  <p className="text-sm font-medium text-blue-800">
+                    #{job.queuePosition.position} in queue with {job.queuePosition.waitingTasks} waiting
+                    tasks ({job.priority.toLowerCase()} priority)
+                  </p>
+                  <p className="mt-1 text-xs text-blue-700">
+                    Next task expected to start around{' '}
+                    {format(new Date(job.queuePosition.expectedStartAt), 'PPp')}
+                  </p>
+                </div>
+              )}
+
+              {job.workerLostAt && job.status === 'RUNNING' && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                  <p className="text-sm font-medium text-red-800">
+                    Worker lost {formatDistanceToNow(new Date(job.workerLostAt), { addSuffix: true })}
+                  </p>
+                  <p className="mt-1 text-xs text-red-700">
+                    The worker running this job stopped sending heartbeats. Its tasks run again once
+                    they are detected as stalled, see the <Link href="/dashboard/workers" className="underline">workers page</Link>.
+                  </p>
+                </div>
+              )}
+
               {job.pauseReason && (
                 <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
                   <p className="text-sm font-medium text-orange-800">
@@ -297,6 +580,25 @@ export default function JobDetailPage() {
                 </div>
               )}
 
+              {job.scrapeWindows && job.scrapeWindows.length > 0 && (
+                <div className="bg-purple-50 border border-purple-200 rounded-lg p-4">
+                  <p className="text-sm font-medium text-purple-800">
+                    Scraping Hours ({job.windowTimezone}):{' '}
+                    {job.scrapeWindows
+                      .map(
+                        (window) =>
+                          `${window.days.map((day) => WEEKDAY_NAMES[day]).join(', ')} ${window.start}-${window.end}`
+                      )
+                      .join('; ')}
+                  </p>
+                  {job.status === 'WAITING_WINDOW' && job.windowOpensAt && (
+                    <p className="mt-1 text-xs text-purple-700">
+                      Waiting for the next window, opens {format(new Date(job.windowOpensAt), 'PPp')}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {job.errorMessage && (
                 <div className="bg-red-50 border border-red-200 rounded-lg p-4">
                   <p className="text-sm font-medium text-red-800">
@@ -308,6 +610,120 @@ export default function JobDetailPage() {
           </CardContent>
         </Card>
 
+        {/* Grid Coverage */}
+        {job.searchArea && grid && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Grid Coverage</CardTitle>
+              <CardDescription>
+                {job.searchArea.type} area, {job.gridCellSizeKm} km cells - saturated cells are split
+                into four
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-6">
+                {Object.entries(grid.coverage).map(([keyword, counts]) => (
+                  <div key={keyword}>
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      <span className="font-medium">{keyword}</span>
+                      {Object.entries(counts).map(([status, count]) => (
+                        <Badge key={status} variant="secondary">
+                          {status}: {count}
+                        </Badge>
+                      ))}
+                    </div>
+                    <CoverageMap cells={grid.cells.filter((cell) => cell.keyword === keyword)} />
+                  </div>
+                ))}
+                {Object.keys(grid.coverage).length === 0 && (
+                  <p className="text-sm text-gray-500">No cells searched yet</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Live Activity */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Live Activity</CardTitle>
+            <CardDescription>What the workers are doing on this job, as it happens</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {activity.length === 0 ? (
+              <p className="text-sm text-gray-500">No activity yet</p>
+            ) : (
+              <div className="max-h-72 overflow-y-auto space-y-1">
+                {activity.map((item) => (
+                  <div key={item.id} className="flex items-center gap-3 text-sm">
+                    <span className={`w-2 h-2 rounded-full shrink-0 ${ACTIVITY_COLORS[item.type]}`} />
+                    <span className="text-xs text-gray-400 font-mono">
+                      {format(new Date(Number(item.id.split('-')[0])), 'HH:mm:ss')}
+                    </span>
+                    <span className="text-gray-700">{describeActivity(item)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Tasks */}
+        {!isPlaceList && job.tasks.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Tasks</CardTitle>
+              <CardDescription>
+                One task per keyword{job.locations && job.locations.length > 0 ? ' and location' : ''},
+                run in parallel across workers
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 border-b">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Keyword</th>
+                      <th className="px-4 py-2 text-left">Location</th>
+                      <th className="px-4 py-2 text-left">Status</th>
+                      <th className="px-4 py-2 text-left">Checkpoint</th>
+                      <th className="px-4 py-2 text-left">Scraped</th>
+                      <th className="px-4 py-2 text-left">Failed</th>
+                      <th className="px-4 py-2 text-left">Attempts</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {job.tasks.map((task) => (
+                      <tr key={task.id}>
+                        <td className="px-4 py-2 font-medium">{task.keyword}</td>
+                        <td className="px-4 py-2 text-gray-600">{task.location || '-'}</td>
+                        <td className="px-4 py-2">
+                          {getStatusBadge(task.status)}
+                          {task.errorMessage && (
+                            <p className="text-xs text-red-600 mt-1">{task.errorMessage}</p>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">
+                          {task.placeLinks
+                            ? `${
+                                task.lastPlaceLink
+                                  ? task.placeLinks.indexOf(task.lastPlaceLink) + 1
+                                  : 0
+                              } / ${task.placeLinks.length} places`
+                            : '-'}
+                        </td>
+                        <td className="px-4 py-2">{task.scrapedCount.toLocaleString()}</td>
+                        <td className="px-4 py-2">{task.failedCount}</td>
+                        <td className="px-4 py-2 text-gray-500">{task.attempts}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
           {/* Job Configuration */}
           <Card>
@@ -316,18 +732,26 @@ export default function JobDetailPage() {
             </CardHeader>
             <CardContent>
               <dl className="space-y-3 text-sm">
-                <div>
-                  <dt className="font-medium text-gray-600">Keywords</dt>
-                  <dd className="mt-1">
-                    <div className="flex flex-wrap gap-1">
-                      {job.keywords.map((keyword, i) => (
-                        <Badge key={i} variant="secondary">
-                          {keyword}
-                        </Badge>
-                      ))}
-                    </div>
-                  </dd>
-                </div>
+                {isPlaceList && (
+                  <div>
+                    <dt className="font-medium text-gray-600">Place List</dt>
+                    <dd className="mt-1">{totalPlaces.toLocaleString()} place URLs or IDs</dd>
+                  </div>
+                )}
+                {!isPlaceList && (
+                  <div>
+                    <dt className="font-medium text-gray-600">Keywords</dt>
+                    <dd className="mt-1">
+                      <div className="flex flex-wrap gap-1">
+                        {job.keywords.map((keyword, i) => (
+                          <Badge key={i} variant="secondary">
+                            {keyword}
+                          </Badge>
+                        ))}
+                      </div>
+                    </dd>
+                  </div>
+                )}
                 {job.locations && job.locations.length > 0 && (
                   <div>
                     <dt className="font-medium text-gray-600">Locations</dt>
@@ -342,10 +766,12 @@ export default function JobDetailPage() {
                     </dd>
                   </div>
                 )}
-                <div>
-                  <dt className="font-medium text-gray-600">Max Results Per Keyword</dt>
-                  <dd className="mt-1">{job.maxResultsPerKeyword}</dd>
-                </div>
+                {!isPlaceList && (
+                  <div>
+                    <dt className="font-medium text-gray-600">Max Results Per Keyword</dt>
+                    <dd className="mt-1">{job.maxResultsPerKeyword}</dd>
+                  </div>
+                )}
                 <div>
                   <dt className="font-medium text-gray-600">Created</dt>
                   <dd className="mt-1">
@@ -409,7 +835,7 @@ export default function JobDetailPage() {
                       <th className="px-4 py-2 text-left">Address</th>
                       <th className="px-4 py-2 text-left">Rating</th>
                       <th className="px-4 py-2 text-left">Phone</th>
-                      <th className="px-4 py-2 text-left">Scraped</th>
+                      <th className="px-4 py-2 text-left">Found</th>
                     </tr>
                   </thead>
                   <tbody className="divide-y">
@@ -420,7 +846,7 @@ export default function JobDetailPage() {
                         <td className="px-4 py-2">{place.rating || '-'}</td>
                         <td className="px-4 py-2">{place.phone || '-'}</td>
                         <td className="px-4 py-2 text-gray-500">
-                          {formatDistanceToNow(new Date(place.scrapedAt), { addSuffix: true })}
+                          {formatDistanceToNow(new Date(place.firstSeenAt), { addSuffix: true })}
                         </td>
                       </tr>
                     ))}
@@ -435,11 +861,21 @@ export default function JobDetailPage() {
         {job.failedScrapes.length > 0 && (
           <Card>
             <CardHeader>
-              <CardTitle>Failed Scrapes</CardTitle>
-              <CardDescription>
-                Showing {job.failedScrapes.length} most recent failures (Total:{' '}
-                {job._count.failedScrapes})
-              </CardDescription>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Failed Scrapes</CardTitle>
+                  <CardDescription>
+                    Showing {job.failedScrapes.length} most recent failures (Total:{' '}
+                    {job._count.failedScrapes})
+                  </CardDescription>
+                </div>
+                {canRetry && (
+                  <Button onClick={() => handleRetry()} disabled={actionLoading} variant="outline">
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Retry Failed
+                  </Button>
+                )}
+              </div>
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
@@ -447,14 +883,32 @@ export default function JobDetailPage() {
                   <div key={failure.id} className="border rounded-lg p-3">
                     <div className="flex items-center gap-2 mb-1">
                       <Badge variant="destructive">{failure.errorType}</Badge>
-                      <span className="font-medium">{failure.keyword}</span>
+                      <span className="font-medium break-all">
+                        {failure.placeName || failure.keyword || failure.placeInput}
+                      </span>
                       {failure.location && (
                         <span className="text-sm text-gray-500">in {failure.location}</span>
                       )}
+                      {canRetry && (
+                        <Button
+                          onClick={() => handleRetry(failure.id)}
+                          disabled={actionLoading}
+                          variant="ghost"
+                          size="sm"
+                          className="ml-auto"
+                        >
+                          <RefreshCw className="w-4 h-4 mr-1" />
+                          Retry
+                        </Button>
+                      )}
                     </div>
                     <p className="text-sm text-gray-600">{failure.errorMessage}</p>
                     <p className="text-xs text-gray-400 mt-1">
                       {formatDistanceToNow(new Date(failure.failedAt), { addSuffix: true })}
+                      {' · '}
+                      {failure.retryCount} / {failure.maxRetries} retries
+                      {failure.lastRetryAt &&
+                        `, last ${formatDistanceToNow(new Date(failure.lastRetryAt), { addSuffix: true })}`}
                     </p>
                   </div>
                 ))}
@@ -12,12 +12,21 @@ interface Job {
   id: string
   clientName: string
   status: string
+  priority: 'HIGH' | 'NORMAL' | 'LOW'
   scrapedCount: number
   failedCount: number
+  jobType: 'SEARCH' | 'PLACE_LIST'
   keywords: string[]
+  placeInputs: string[] | null
   maxResultsPerKeyword: number
   createdAt: string
   completedAt: string | null
+  workerLostAt: string | null
+  queuePosition: {
+    position: number
+    waitingTasks: number
+    expectedStartAt: string
+  } | null
   _count: {
     scrapedPlaces: number
     failedScrapes: number
@@ -49,6 +58,14 @@ export default function JobsListPage() {
     }
   }
 
+  // Estimated start of a job's next waiting task
+  const formatExpectedStart = (expectedStartAt: string) => {
+    const startAt = new Date(expectedStartAt)
+    return startAt.getTime() - Date.now() < 60000
+      ? 'soon'
+      : formatDistanceToNow(startAt, { addSuffix: true })
+  }
+
   const getStatusBadge = (status: string) => {
     const variants: Record<string, 'default' | 'secondary' | 'destructive'> = {
       RUNNING: 'default',
@@ -56,6 +73,8 @@ export default function JobsListPage() {
       PAUSED: 'secondary',
       COMPLETED: 'secondary',
       FAILED: 'destructive',
+      CANCELLED: 'secondary',
+      WAITING_WINDOW: 'secondary',
     }
 
     const colors: Record<string, string> = {
@@ -64,11 +83,13 @@ export default function JobsListPage() {
       PAUSED: 'bg-orange-100 text-orange-800',
       COMPLETED: 'bg-green-100 text-green-800',
       FAILED: 'bg-red-100 text-red-800',
+      CANCELLED: 'bg-gray-100 text-gray-800',
+      WAITING_WINDOW: 'bg-purple-100 text-purple-800',
     }
 
     return (
       <span className={`px-2 py-1 rounded-full text-xs font-semibold ${colors[status] || ''}`}>
-        {status}
+        {status === 'WAITING_WINDOW' ? 'WAITING FOR WINDOW' : status}
       </span>
     )
   }
@@ -133,6 +154,20 @@ export default function JobsListPage() {
           >
             Failed
           </Button>
+          <Button
+            variant={filter === 'CANCELLED' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setFilter('CANCELLED')}
+          >
+            Cancelled
+          </Button>
+          <Button
+            variant={filter === 'WAITING_WINDOW' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setFilter('WAITING_WINDOW')}
+          >
+            Waiting for Window
+          </Button>
         </div>
 
         {/* Jobs Table */}
@@ -140,7 +175,7 @@ export default function JobsListPage() {
           <CardHeader>
             <CardTitle>Jobs</CardTitle>
             <CardDescription>
-              {jobs.length} {filter === 'all' ? 'total' : filter.toLowerCase()} jobs
+              {jobs.length} {filter === 'all' ? 'total' : filter.toLowerCase().replace('_', ' ')} jobs
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -189,6 +224,20 @@ export default function JobsListPage() {
                         </td>
                         <td className="px-4 py-4 whitespace-nowrap">
                           {getStatusBadge(job.status)}
+                          {job.priority !== 'NORMAL' && (
+                            <div className="mt-1 text-xs text-gray-500">
+                              {job.priority === 'HIGH' ? 'High' : 'Low'} priority
+                            </div>
+                          )}
+                          {job.workerLostAt && job.status === 'RUNNING' && (
+                            <div className="mt-1 text-xs font-medium text-red-600">Worker lost</div>
+                          )}
+                          {job.queuePosition && (
+                            <div className="mt-1 text-xs text-gray-500">
+                              #{job.queuePosition.position} in queue, starts{' '}
+                              {formatExpectedStart(job.queuePosition.expectedStartAt)}
+                            </div>
+                          )}
                         </td>
                         <td className="px-4 py-4 whitespace-nowrap">
                           <div className="text-sm font-medium text-gray-900">
@@ -199,12 +248,20 @@ export default function JobsListPage() {
                           </div>
                         </td>
                         <td className="px-4 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">
-                            {Array.isArray(job.keywords) ? job.keywords.length : 0} keywords
-                          </div>
-                          <div className="text-xs text-gray-500">
-                            Max {job.maxResultsPerKeyword} per keyword
-                          </div>
+                          {job.jobType === 'PLACE_LIST' ? (
+                            <div className="text-sm text-gray-900">
+                              {Array.isArray(job.placeInputs) ? job.placeInputs.length : 0} places
+                            </div>
+                          ) : (
+                            <>
+                              <div className="text-sm text-gray-900">
+                                {Array.isArray(job.keywords) ? job.keywords.length : 0} keywords
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                Max {job.maxResultsPerKeyword} per keyword
+                              </div>
+                            </>
+                          )}
                         </td>
                         <td className="px-4 py-4 whitespace-nowrap">
                           <div className="text-sm text-gray-900">
@@ -5,7 +5,28 @@ import { useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { ArrowLeft, Plus, X } from 'lucide-react'
+import { ArrowLeft, Plus, Upload, X } from 'lucide-react'
+import { placeLinkFromInput } from '@/services/placeParser'
+
+// Pick the place URL or ID out of each pasted line or CSV row, ignoring other columns and headers
+function parsePlaceList(text: string): string[] {
+  const inputs: string[] = []
+
+  text.split(/\r?\n/).forEach((line) => {
+    const cell = line
+      .split(/[,;\t]/)
+      .map((value) => value.trim().replace(/^"|"$/g, ''))
+      .find((value) => placeLinkFromInput(value))
+
+    if (cell && !inputs.includes(cell)) {
+      inputs.push(cell)
+    }
+  })
+
+  return inputs
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
 
 export default function NewJobPage() {
   const router = useRouter()
@@ -14,6 +35,9 @@ export default function NewJobPage() {
 
   const [formData, setFormData] = useState({
     clientName: '',
+    jobType: 'SEARCH' as 'SEARCH' | 'PLACE_LIST',
+    priority: 'NORMAL' as 'HIGH' | 'NORMAL' | 'LOW',
+    placeList: '', // Pasted or uploaded place URLs/IDs, one per line
     keywords: [''],
     locations: [''],
     maxResultsPerKeyword: 500,
@@ -21,6 +45,8 @@ export default function NewJobPage() {
     maxDelay: 4000, // Optimized for speed with 3 concurrent workers
     cooldownAfter: 50,
     cooldownDuration: 60000, // Optimized for better throughput
+    sessionMaxPlaces: 500,
+    sessionMaxDuration: 3600000, // 1 hour
     fieldsToScrape: {
       phone: true,
       rating: true,
@@ -28,9 +54,72 @@ export default function NewJobPage() {
       businessInfo: true,
       coordinates: true,
       socialMedia: false, // Rarely available on Google Maps
+      amenities: false, // Opens the About tab of every place
+      reviews: false, // Slow - opens and scrolls the reviews tab of every place
+    },
+    maxReviewsPerPlace: 20,
+    enrichWebsites: false, // Crawls each place website in a separate worker
+    grid: {
+      enabled: false, // Search an area cell by cell instead of by location
+      type: 'bbox' as 'bbox' | 'circle' | 'polygon',
+      south: '',
+      west: '',
+      north: '',
+      east: '',
+      latitude: '',
+      longitude: '',
+      radiusKm: '5',
+      polygon: '', // One "latitude, longitude" point per line
+      cellSizeKm: 2,
+      maxDepth: 3,
+    },
+    window: {
+      enabled: false, // Only scrape inside these hours
+      timezone: 'Asia/Jakarta',
+      start: '22:00',
+      end: '06:00', // Before the start means past midnight
+      days: [0, 1, 2, 3, 4, 5, 6],
     },
   })
 
+  const updateWindow = (changes: Partial<typeof formData.window>) => {
+    setFormData({ ...formData, window: { ...formData.window, ...changes } })
+  }
+
+  const updateGrid = (changes: Partial<typeof formData.grid>) => {
+    setFormData({ ...formData, grid: { ...formData.grid, ...changes } })
+  }
+
+  // Build the searchArea payload from the grid inputs
+  const buildSearchArea = () => {
+    const { grid } = formData
+    switch (grid.type) {
+      case 'bbox':
+        return {
+          type: 'bbox',
+          south: parseFloat(grid.south),
+          west: parseFloat(grid.west),
+          north: parseFloat(grid.north),
+          east: parseFloat(grid.east),
+        }
+      case 'circle':
+        return {
+          type: 'circle',
+          latitude: parseFloat(grid.latitude),
+          longitude: parseFloat(grid.longitude),
+          radiusKm: parseFloat(grid.radiusKm),
+        }
+      case 'polygon':
+        return {
+          type: 'polygon',
+          points: grid.polygon
+            .split('\n')
+            .filter((line) => line.trim())
+            .map((line) => line.split(',').map((value) => parseFloat(value.trim()))),
+        }
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -41,12 +130,32 @@ export default function NewJobPage() {
       const keywords = formData.keywords.filter((k) => k.trim())
       const locations = formData.locations.filter((l) => l.trim())
 
-      if (keywords.length === 0) {
+      const placeInputs = parsePlaceList(formData.placeList)
+
+      if (formData.jobType === 'SEARCH' && keywords.length === 0) {
         setError('Please add at least one keyword')
         setLoading(false)
         return
       }
 
+      if (formData.jobType === 'PLACE_LIST' && placeInputs.length === 0) {
+        setError('Please add at least one Google Maps place URL or place ID')
+        setLoading(false)
+        return
+      }
+
+      if (formData.window.enabled && formData.window.days.length === 0) {
+        setError('Please select at least one day for the scraping hours')
+        setLoading(false)
+        return
+      }
+
+      if (formData.maxDelay < formData.minDelay) {
+        setError('Max delay must be greater than or equal to min delay')
+        setLoading(false)
+        return
+      }
+
       // Convert fieldsToScrape object to array
       const fieldsToScrapeArray = Object.entries(formData.fieldsToScrape)
         .filter(([_, enabled]) => enabled)
@@ -54,14 +163,28 @@ export default function NewJobPage() {
 
       const payload = {
         clientName: formData.clientName,
+        jobType: formData.jobType,
+        priority: formData.priority,
         keywords,
-        locations: locations.length > 0 ? locations : undefined,
+        placeInputs: formData.jobType === 'PLACE_LIST' ? placeInputs : undefined,
+        locations: !formData.grid.enabled && locations.length > 0 ? locations : undefined,
         maxResultsPerKeyword: formData.maxResultsPerKeyword,
+        searchArea: formData.grid.enabled ? buildSearchArea() : undefined,
+        gridCellSizeKm: formData.grid.cellSizeKm,
+        gridMaxDepth: formData.grid.maxDepth,
         minDelay: formData.minDelay,
         maxDelay: formData.maxDelay,
         cooldownAfter: formData.cooldownAfter,
         cooldownDuration: formData.cooldownDuration,
+        sessionMaxPlaces: formData.sessionMaxPlaces,
+        sessionMaxDuration: formData.sessionMaxDuration,
         fieldsToScrape: fieldsToScrapeArray,
+        maxReviewsPerPlace: formData.maxReviewsPerPlace,
+        enrichWebsites: formData.enrichWebsites,
+        scrapeWindows: formData.window.enabled
+          ? [{ days: formData.window.days, start: formData.window.start, end: formData.window.end }]
+          : undefined,
+        windowTimezone: formData.window.enabled ? formData.window.timezone : undefined,
       }
 
       const response = await fetch('/api/jobs', {
@@ -86,6 +209,18 @@ export default function NewJobPage() {
     }
   }
 
+  const handlePlaceListUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    const text = await file.text()
+    setFormData({
+      ...formData,
+      placeList: formData.placeList.trim() ? `${formData.placeList.trim()}\n${text}` : text,
+    })
+    e.target.value = ''
+  }
+
   const addKeyword = () => {
     setFormData({
       ...formData,
@@ -177,108 +312,340 @@ export default function NewJobPage() {
 
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Max Results Per Keyword
+                    Job Type
                   </label>
-                  <input
-                    type="number"
-                    min="1"
-                    max="1000"
+                  <select
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    value={formData.maxResultsPerKeyword}
+                    value={formData.jobType}
                     onChange={(e) =>
-                      setFormData({
-                        ...formData,
-                        maxResultsPerKeyword: parseInt(e.target.value),
-                      })
+                      setFormData({ ...formData, jobType: e.target.value as typeof formData.jobType })
                     }
-                  />
+                  >
+                    <option value="SEARCH">Keyword search</option>
+                    <option value="PLACE_LIST">List of places (URLs or place IDs)</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Priority
+                  </label>
+                  <select
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    value={formData.priority}
+                    onChange={(e) =>
+                      setFormData({ ...formData, priority: e.target.value as typeof formData.priority })
+                    }
+                  >
+                    <option value="HIGH">High</option>
+                    <option value="NORMAL">Normal</option>
+                    <option value="LOW">Low</option>
+                  </select>
                   <p className="mt-1 text-xs text-gray-500">
-                    Maximum number of places to scrape per keyword
+                    Higher priority jobs run first, clients with the same priority take turns
                   </p>
                 </div>
-              </CardContent>
-            </Card>
 
-            {/* Keywords */}
-            <Card>
-              <CardHeader>
-                <div className="flex items-center justify-between">
+                {formData.jobType === 'SEARCH' && (
                   <div>
-                    <CardTitle>Keywords *</CardTitle>
-                    <CardDescription>
-                      Add search keywords to scrape (e.g., "restaurants", "coffee shops")
-                    </CardDescription>
-                  </div>
-                  <Button type="button" variant="outline" size="sm" onClick={addKeyword}>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Keyword
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {formData.keywords.map((keyword, index) => (
-                  <div key={index} className="flex gap-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Max Results Per Keyword
+                    </label>
                     <input
-                      type="text"
-                      required
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      value={keyword}
-                      onChange={(e) => updateKeyword(index, e.target.value)}
-                      placeholder="e.g., coffee shops"
+                      type="number"
+                      min="1"
+                      max="1000"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      value={formData.maxResultsPerKeyword}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          maxResultsPerKeyword: parseInt(e.target.value),
+                        })
+                      }
                     />
-                    {formData.keywords.length > 1 && (
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        onClick={() => removeKeyword(index)}
-                      >
-                        <X className="w-4 h-4" />
-                      </Button>
-                    )}
+                    <p className="mt-1 text-xs text-gray-500">
+                      Maximum number of places to scrape per keyword
+                    </p>
                   </div>
-                ))}
+                )}
               </CardContent>
             </Card>
 
-            {/* Locations (Optional) */}
-            <Card>
-              <CardHeader>
-                <div className="flex items-center justify-between">
-                  <div>
-                    <CardTitle>Locations (Optional)</CardTitle>
+            {/* Place List */}
+            {formData.jobType === 'PLACE_LIST' && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>Places *</CardTitle>
+                      <CardDescription>
+                        Paste Google Maps place links or place IDs, one per line, or upload a CSV.
+                        Places already stored are refreshed.
+                      </CardDescription>
+                    </div>
+                    <label className="inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium cursor-pointer hover:bg-gray-50">
+                      <Upload className="w-4 h-4 mr-2" />
+                      Upload CSV
+                      <input
+                        type="file"
+                        accept=".csv,.txt,text/csv,text/plain"
+                        className="hidden"
+                        onChange={handlePlaceListUpload}
+                      />
+                    </label>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <textarea
+                    rows={8}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                    value={formData.placeList}
+                    onChange={(e) => setFormData({ ...formData, placeList: e.target.value })}
+                    placeholder={'https://www.google.com/maps/place/...\n0x2dd2470f2b5a6b9f:0x3d5c1d0e4c4e1a2b\nChIJN1t_tDeuEmsRUsoyG83frY4'}
+                  />
+                  <p className="mt-1 text-xs text-gray-500">
+                    {parsePlaceList(formData.placeList).length} places detected - other CSV columns and
+                    header rows are ignored
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+
+            {formData.jobType === 'SEARCH' && (
+              <>
+                {/* Keywords */}
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle>Keywords *</CardTitle>
+                        <CardDescription>
+                          Add search keywords to scrape (e.g., "restaurants", "coffee shops")
+                        </CardDescription>
+                      </div>
+                      <Button type="button" variant="outline" size="sm" onClick={addKeyword}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Keyword
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {formData.keywords.map((keyword, index) => (
+                      <div key={index} className="flex gap-2">
+                        <input
+                          type="text"
+                          required
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          value={keyword}
+                          onChange={(e) => updateKeyword(index, e.target.value)}
+                          placeholder="e.g., coffee shops"
+                        />
+                        {formData.keywords.length > 1 && (
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            onClick={() => removeKeyword(index)}
+                          >
+                            <X className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                {/* Locations (Optional) */}
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <CardTitle>Locations (Optional)</CardTitle>
+                        <CardDescription>
+                          Add specific locations to search in (e.g., "New York, NY", "London, UK")
+                        </CardDescription>
+                      </div>
+                      <Button type="button" variant="outline" size="sm" onClick={addLocation}>
+                        <Plus className="w-4 h-4 mr-2" />
+                        Add Location
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {formData.locations.map((location, index) => (
+                      <div key={index} className="flex gap-2">
+                        <input
+                          type="text"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          value={location}
+                          onChange={(e) => updateLocation(index, e.target.value)}
+                          placeholder="e.g., New York, NY"
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => removeLocation(index)}
+                        >
+                          <X className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                {/* Grid Search (Optional) */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Grid Search (Optional)</CardTitle>
                     <CardDescription>
-                      Add specific locations to search in (e.g., "New York, NY", "London, UK")
+                      A single search lists at most ~120 places. Grid search splits an area into cells,
+                      searches each cell separately and splits cells that still hit the cap.
                     </CardDescription>
-                  </div>
-                  <Button type="button" variant="outline" size="sm" onClick={addLocation}>
-                    <Plus className="w-4 h-4 mr-2" />
-                    Add Location
-                  </Button>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {formData.locations.map((location, index) => (
-                  <div key={index} className="flex gap-2">
-                    <input
-                      type="text"
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      value={location}
-                      onChange={(e) => updateLocation(index, e.target.value)}
-                      placeholder="e.g., New York, NY"
-                    />
-                    <Button
-                      type="button"
-                      variant="outline"
-                      size="sm"
-                      onClick={() => removeLocation(index)}
-                    >
-                      <X className="w-4 h-4" />
-                    </Button>
-                  </div>
-                ))}
-              </CardContent>
-            </Card>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex items-start space-x-3">
+                      <input
+                        type="checkbox"
+                        id="gridEnabled"
+                        className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        checked={formData.grid.enabled}
+                        onChange={(e) => updateGrid({ enabled: e.target.checked })}
+                      />
+                      <div className="flex-1">
+                        <label htmlFor="gridEnabled" className="text-sm font-medium text-gray-700 cursor-pointer">
+                          Search a geographic area
+                        </label>
+                        <p className="text-xs text-gray-500">Locations are ignored when a grid is used</p>
+                      </div>
+                    </div>
+
+                    {formData.grid.enabled && (
+                      <>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">Area</label>
+                          <select
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={formData.grid.type}
+                            onChange={(e) => updateGrid({ type: e.target.value as typeof formData.grid.type })}
+                          >
+                            <option value="bbox">Bounding box</option>
+                            <option value="circle">Center + radius</option>
+                            <option value="polygon">Polygon</option>
+                          </select>
+                        </div>
+
+                        {formData.grid.type === 'bbox' && (
+                          <div className="grid grid-cols-2 gap-4">
+                            {(['south', 'west', 'north', 'east'] as const).map((side) => (
+                              <div key={side}>
+                                <label className="block text-sm font-medium text-gray-700 mb-2 capitalize">
+                                  {side} ({side === 'south' || side === 'north' ? 'latitude' : 'longitude'})
+                                </label>
+                                <input
+                                  type="number"
+                                  step="any"
+                                  required
+                                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                  value={formData.grid[side]}
+                                  onChange={(e) => updateGrid({ [side]: e.target.value })}
+                                />
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {formData.grid.type === 'circle' && (
+                          <div className="grid grid-cols-3 gap-4">
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Latitude</label>
+                              <input
+                                type="number"
+                                step="any"
+                                required
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                value={formData.grid.latitude}
+                                onChange={(e) => updateGrid({ latitude: e.target.value })}
+                                placeholder="e.g., -6.2088"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Longitude</label>
+                              <input
+                                type="number"
+                                step="any"
+                                required
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                value={formData.grid.longitude}
+                                onChange={(e) => updateGrid({ longitude: e.target.value })}
+                                placeholder="e.g., 106.8456"
+                              />
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-2">Radius (km)</label>
+                              <input
+                                type="number"
+                                step="any"
+                                min="0.1"
+                                required
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                value={formData.grid.radiusKm}
+                                onChange={(e) => updateGrid({ radiusKm: e.target.value })}
+                              />
+                            </div>
+                          </div>
+                        )}
+
+                        {formData.grid.type === 'polygon' && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              Polygon points
+                            </label>
+                            <textarea
+                              rows={5}
+                              required
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                              value={formData.grid.polygon}
+                              onChange={(e) => updateGrid({ polygon: e.target.value })}
+                              placeholder={'-6.10, 106.70\n-6.10, 106.95\n-6.35, 106.95\n-6.35, 106.70'}
+                            />
+                            <p className="mt-1 text-xs text-gray-500">One &quot;latitude, longitude&quot; per line, at least 3 points</p>
+                          </div>
+                        )}
+
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Cell Size (km)</label>
+                            <input
+                              type="number"
+                              step="any"
+                              min="0.25"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              value={formData.grid.cellSizeKm}
+                              onChange={(e) => updateGrid({ cellSizeKm: parseFloat(e.target.value) })}
+                            />
+                            <p className="mt-1 text-xs text-gray-500">Smaller cells in dense cities</p>
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">Max Splits</label>
+                            <input
+                              type="number"
+                              min="0"
+                              max="6"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              value={formData.grid.maxDepth}
+                              onChange={(e) => updateGrid({ maxDepth: parseInt(e.target.value) })}
+                            />
+                            <p className="mt-1 text-xs text-gray-500">Times a saturated cell may be split in four</p>
+                          </div>
+                        </div>
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
 
             {/* Fields to Scrape */}
             <Card>
@@ -286,6 +653,7 @@ export default function NewJobPage() {
                 <CardTitle>Fields to Scrape</CardTitle>
                 <CardDescription>
                   Select which data fields to extract. Name, Address, Website, and Place ID are always included.
+                  Unselected fields are skipped during scraping, so fewer fields means faster jobs.
                 </CardDescription>
               </CardHeader>
               <CardContent>
@@ -368,9 +736,9 @@ export default function NewJobPage() {
                     />
                     <div className="flex-1">
                       <label htmlFor="businessInfo" className="text-sm font-medium text-gray-700 cursor-pointer">
-                        Business Status & Type
+                        Business Status, Type & Opening Hours
                       </label>
-                      <p className="text-xs text-gray-500">60-80% availability on Google Maps</p>
+                      <p className="text-xs text-gray-500">60-80% availability on Google Maps (opening hours add a click per place)</p>
                     </div>
                   </div>
 
@@ -417,6 +785,91 @@ export default function NewJobPage() {
                       </p>
                     </div>
                   </div>
+
+                  <div className="flex items-start space-x-3">
+                    <input
+                      type="checkbox"
+                      id="amenities"
+                      className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      checked={formData.fieldsToScrape.amenities}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          fieldsToScrape: { ...formData.fieldsToScrape, amenities: e.target.checked },
+                        })
+                      }
+                    />
+                    <div className="flex-1">
+                      <label htmlFor="amenities" className="text-sm font-medium text-gray-700 cursor-pointer">
+                        Amenities & Attributes (Accessibility, Service options, Payments, etc.)
+                      </label>
+                      <p className="text-xs text-gray-500">
+                        From the About tab - exported as one true/false column per attribute
+                      </p>
+                    </div>
+                  </div>
+
+                  <div className="flex items-start space-x-3">
+                    <input
+                      type="checkbox"
+                      id="reviews"
+                      className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      checked={formData.fieldsToScrape.reviews}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          fieldsToScrape: { ...formData.fieldsToScrape, reviews: e.target.checked },
+                        })
+                      }
+                    />
+                    <div className="flex-1">
+                      <label htmlFor="reviews" className="text-sm font-medium text-gray-700 cursor-pointer">
+                        Reviews (Author, Rating, Date, Text, Owner Response)
+                      </label>
+                      <p className="text-xs text-gray-500">
+                        Adds up to a minute per place - exported as a separate reviews CSV
+                      </p>
+                      {formData.fieldsToScrape.reviews && (
+                        <div className="mt-2 flex items-center gap-2">
+                          <label htmlFor="maxReviewsPerPlace" className="text-xs text-gray-600">
+                            Max reviews per place
+                          </label>
+                          <input
+                            type="number"
+                            id="maxReviewsPerPlace"
+                            min="1"
+                            max="500"
+                            className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                            value={formData.maxReviewsPerPlace}
+                            onChange={(e) =>
+                              setFormData({
+                                ...formData,
+                                maxReviewsPerPlace: parseInt(e.target.value),
+                              })
+                            }
+                          />
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="flex items-start space-x-3">
+                    <input
+                      type="checkbox"
+                      id="enrichWebsites"
+                      className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      checked={formData.enrichWebsites}
+                      onChange={(e) => setFormData({ ...formData, enrichWebsites: e.target.checked })}
+                    />
+                    <div className="flex-1">
+                      <label htmlFor="enrichWebsites" className="text-sm font-medium text-gray-700 cursor-pointer">
+                        Website Enrichment (Email, Phone, Facebook, Instagram, LinkedIn, X, TikTok, WhatsApp)
+                      </label>
+                      <p className="text-xs text-gray-500">
+                        Visits each website and its contact/about pages - requires the enrichment worker
+                      </p>
+                    </div>
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -503,17 +956,146 @@ export default function NewJobPage() {
                   </div>
                 </div>
 
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Restart Browser After (places)
+                    </label>
+                    <input
+                      type="number"
+                      min="50"
+                      max="2000"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      value={formData.sessionMaxPlaces}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          sessionMaxPlaces: parseInt(e.target.value),
+                        })
+                      }
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Restart Browser After (ms)
+                    </label>
+                    <input
+                      type="number"
+                      min="300000"
+                      max="14400000"
+                      step="60000"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      value={formData.sessionMaxDuration}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          sessionMaxDuration: parseInt(e.target.value),
+                        })
+                      }
+                    />
+                  </div>
+                </div>
+
                 <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
                   <p className="text-sm text-blue-800">
                     <strong>Recommended settings:</strong> Keep delays between 3-5 seconds for
                     safe scraping. The system will automatically pause for{' '}
                     {formData.cooldownDuration / 1000} seconds after every{' '}
-                    {formData.cooldownAfter} items.
+                    {formData.cooldownAfter} items, and start a fresh browser after{' '}
+                    {formData.sessionMaxPlaces} places or {formData.sessionMaxDuration / 60000} minutes.
                   </p>
                 </div>
               </CardContent>
             </Card>
 
+            {/* Scraping Hours */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Scraping Hours (Optional)</CardTitle>
+                <CardDescription>
+                  Only scrape inside these hours. Outside them the job waits and continues where it
+                  stopped when the next window opens.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="flex items-start space-x-3">
+                  <input
+                    type="checkbox"
+                    id="windowEnabled"
+                    className="mt-1 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    checked={formData.window.enabled}
+                    onChange={(e) => updateWindow({ enabled: e.target.checked })}
+                  />
+                  <div className="flex-1">
+                    <label htmlFor="windowEnabled" className="text-sm font-medium text-gray-700 cursor-pointer">
+                      Restrict scraping hours
+                    </label>
+                    <p className="text-xs text-gray-500">
+                      An end before the start runs past midnight, e.g. 22:00 - 06:00 overnight
+                    </p>
+                  </div>
+                </div>
+
+                {formData.window.enabled && (
+                  <>
+                    <div className="grid grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Timezone</label>
+                        <input
+                          type="text"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="Asia/Jakarta"
+                          value={formData.window.timezone}
+                          onChange={(e) => updateWindow({ timezone: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+                        <input
+                          type="time"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          value={formData.window.start}
+                          onChange={(e) => updateWindow({ start: e.target.value })}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">Until</label>
+                        <input
+                          type="time"
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          value={formData.window.end}
+                          onChange={(e) => updateWindow({ end: e.target.value })}
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Starting on</label>
+                      <div className="flex flex-wrap gap-3">
+                        {WEEKDAY_NAMES.map((name, day) => (
+                          <label key={day} className="flex items-center gap-1 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                              checked={formData.window.days.includes(day)}
+                              onChange={(e) =>
+                                updateWindow({
+                                  days: e.target.checked
+                                    ? [...formData.window.days, day].sort()
+                                    : formData.window.days.filter((d) => d !== day),
+                                })
+                              }
+                            />
+                            {name}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Error Message */}
             {error && (
               <div className="bg-red-50 border border-red-200 rounded-md p-4">
@@ -7,6 +7,7 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Activity, FileText, TrendingUp, AlertCircle, Plus } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
 
 interface Stats {
   jobs: {
@@ -15,6 +16,7 @@ interface Stats {
     total: number
     completed: number
     failed: number
+    waitingForWindow: number
   }
   places: {
     today: number
@@ -30,8 +32,17 @@ interface Stats {
     scrapedCount: number
     failedCount: number
     currentKeyword: string | null
+    jobType: 'SEARCH' | 'PLACE_LIST'
     keywords: string[]
+    placeInputs: string[] | null
     maxResultsPerKeyword: number
+    windowOpensAt: string | null
+    workerLostAt: string | null
+    queuePosition: {
+      position: number
+      waitingTasks: number
+      expectedStartAt: string
+    } | null
     createdAt: string
   }>
 }
@@ -55,7 +66,7 @@ export default function DashboardPage() {
     eventSource.onmessage = (event) => {
       const data = JSON.parse(event.data)
 
-      if (data.type === 'progress' || data.type === 'status') {
+      if (data.type === 'place-saved' || data.type === 'status') {
         setJobUpdates((prev) => ({
           ...prev,
           [data.jobId]: data,
@@ -92,19 +103,32 @@ export default function DashboardPage() {
       PAUSED: 'secondary',
       COMPLETED: 'secondary',
       FAILED: 'destructive',
+      CANCELLED: 'secondary',
+      WAITING_WINDOW: 'secondary',
     }
 
     return (
       <Badge variant={variants[status] || 'secondary'}>
-        {status}
+        {status === 'WAITING_WINDOW' ? 'WAITING FOR WINDOW' : status}
       </Badge>
     )
   }
 
+  // Estimated start of a job's next waiting task
+  const formatExpectedStart = (expectedStartAt: string) => {
+    const startAt = new Date(expectedStartAt)
+    return startAt.getTime() - Date.now() < 60000
+      ? 'soon'
+      : formatDistanceToNow(startAt, { addSuffix: true })
+  }
+
   const getProgress = (job: any) => {
     const updates = jobUpdates[job.id]
     const keywords = Array.isArray(job.keywords) ? job.keywords : []
-    const totalExpected = keywords.length * job.maxResultsPerKeyword
+    const totalExpected =
+      job.jobType === 'PLACE_LIST'
+        ? (Array.isArray(job.placeInputs) ? job.placeInputs.length : 0)
+        : keywords.length * job.maxResultsPerKeyword
     const scrapedCount = updates?.scrapedCount || job.scrapedCount
     return totalExpected > 0 ? (scrapedCount / totalExpected) * 100 : 0
   }
@@ -156,6 +180,7 @@ export default function DashboardPage() {
               <div className="text-2xl font-bold">{stats?.jobs.active || 0}</div>
               <p className="text-xs text-muted-foreground">
                 {stats?.jobs.today || 0} created today
+                {stats?.jobs.waitingForWindow ? `, ${stats.jobs.waitingForWindow} waiting for window` : ''}
               </p>
             </CardContent>
           </Card>
@@ -209,7 +234,7 @@ export default function DashboardPage() {
           <CardHeader>
             <CardTitle>Active Jobs</CardTitle>
             <CardDescription>
-              Currently running and pending jobs with real-time progress
+              Currently running, pending and waiting jobs with real-time progress
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -230,10 +255,15 @@ export default function DashboardPage() {
                         <div>
                           <h3 className="font-semibold text-lg">{job.clientName}</h3>
                           <p className="text-sm text-gray-500">
-                            {Array.isArray(job.keywords) ? job.keywords.length : 0} keywords
+                            {job.jobType === 'PLACE_LIST'
+                              ? `${Array.isArray(job.placeInputs) ? job.placeInputs.length : 0} places`
+                              : `${Array.isArray(job.keywords) ? job.keywords.length : 0} keywords`}
                           </p>
                         </div>
                         <div className="flex items-center gap-2">
+                          {job.workerLostAt && job.status === 'RUNNING' && (
+                            <span className="text-xs font-medium text-red-600">Worker lost</span>
+                          )}
                           {getStatusBadge(job.status)}
                           <Link href={`/dashboard/jobs/${job.id}`}>
                             <Button variant="outline" size="sm">
@@ -252,9 +282,15 @@ export default function DashboardPage() {
                         </div>
                         <Progress value={progress} className="h-2" />
                         <div className="flex justify-between text-xs text-gray-500">
-                          <span>{progress.toFixed(1)}% complete</span>
-                          {currentKeyword && (
-                            <span>Current: {currentKeyword}</span>
+                          <span>
+                            {progress.toFixed(1)}% complete
+                            {job.queuePosition &&
+                              ` · #${job.queuePosition.position} in queue, next task starts ${formatExpectedStart(job.queuePosition.expectedStartAt)}`}
+                          </span>
+                          {job.status === 'WAITING_WINDOW' && job.windowOpensAt ? (
+                            <span>Window opens {format(new Date(job.windowOpensAt), 'PPp')}</span>
+                          ) : (
+                            currentKeyword && <span>Current: {currentKeyword}</span>
                           )}
                         </div>
                       </div>
@@ -277,7 +313,7 @@ export default function DashboardPage() {
         </Card>
 
         {/* Quick Links */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6">
           <Link href="/dashboard/jobs">
             <Card className="hover:shadow-md transition-shadow cursor-pointer">
               <CardHeader>
@@ -300,6 +336,28 @@ export default function DashboardPage() {
             </Card>
           </Link>
 
+          <Link href="/dashboard/schedules">
+            <Card className="hover:shadow-md transition-shadow cursor-pointer">
+              <CardHeader>
+                <CardTitle className="text-lg">Schedules</CardTitle>
+                <CardDescription>
+                  Recurring jobs with their next and last runs
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          </Link>
+
+          <Link href="/dashboard/workers">
+            <Card className="hover:shadow-md transition-shadow cursor-pointer">
+              <CardHeader>
+                <CardTitle className="text-lg">Workers</CardTitle>
+                <CardDescription>
+                  Live scrape workers and their running tasks
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          </Link>
+
           <Card className="hover:shadow-md transition-shadow cursor-pointer opacity-50">
             <CardHeader>
               <CardTitle className="text-lg">System Logs</CardTitle>
@@ -0,0 +1,293 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Pause, Play, Trash2 } from 'lucide-react'
+import { format, formatDistanceToNow } from 'date-fns'
+
+interface ScheduleRun {
+  id: string
+  status: string
+  scrapedCount: number
+  createdAt: string
+}
+
+interface Schedule {
+  id: string
+  name: string
+  cron: string
+  timezone: string
+  enabled: boolean
+  jobConfig: {
+    clientName: string
+    jobType?: 'SEARCH' | 'PLACE_LIST'
+    keywords?: string[]
+    placeInputs?: string[]
+  }
+  lastRunAt: string | null
+  nextRunAt: string | null
+  createdAt: string
+  jobs: ScheduleRun[]
+  _count: {
+    jobs: number
+  }
+}
+
+export default function SchedulesPage() {
+  const [schedules, setSchedules] = useState<Schedule[]>([])
+  const [loading, setLoading] = useState(true)
+  const [actionLoading, setActionLoading] = useState(false)
+
+  useEffect(() => {
+    fetchSchedules()
+    const interval = setInterval(fetchSchedules, 5000) // Refresh every 5 seconds
+    return () => clearInterval(interval)
+  }, [])
+
+  const fetchSchedules = async () => {
+    try {
+      const response = await fetch('/api/schedules')
+      const data = await response.json()
+
+      if (data.success) {
+        setSchedules(data.data)
+      }
+    } catch (error) {
+      console.error('Error fetching schedules:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleToggle = async (schedule: Schedule) => {
+    setActionLoading(true)
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      })
+      const data = await response.json()
+      if (data.success) {
+        await fetchSchedules()
+      } else {
+        alert('Failed to update schedule: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error updating schedule:', error)
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const handleDelete = async (schedule: Schedule) => {
+    if (!confirm(`Are you sure you want to delete the schedule "${schedule.name}"? Jobs it already created are kept.`)) {
+      return
+    }
+
+    setActionLoading(true)
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, {
+        method: 'DELETE',
+      })
+      const data = await response.json()
+      if (data.success) {
+        await fetchSchedules()
+      } else {
+        alert('Failed to delete schedule: ' + data.error)
+      }
+    } catch (error) {
+      console.error('Error deleting schedule:', error)
+      alert('Failed to delete schedule')
+    } finally {
+      setActionLoading(false)
+    }
+  }
+
+  const getStatusBadge = (status: string) => {
+    const colors: Record<string, string> = {
+      RUNNING: 'bg-blue-100 text-blue-800',
+      PENDING: 'bg-yellow-100 text-yellow-800',
+      PAUSED: 'bg-orange-100 text-orange-800',
+      COMPLETED: 'bg-green-100 text-green-800',
+      FAILED: 'bg-red-100 text-red-800',
+      CANCELLED: 'bg-gray-100 text-gray-800',
+      WAITING_WINDOW: 'bg-purple-100 text-purple-800',
+    }
+
+    return (
+      <span className={`px-2 py-1 rounded-full text-xs font-semibold ${colors[status] || ''}`}>
+        {status === 'WAITING_WINDOW' ? 'WAITING FOR WINDOW' : status}
+      </span>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Schedules</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                Recurring jobs and the runs they created
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>Schedules</CardTitle>
+            <CardDescription>
+              {schedules.length} schedules, created through <code>POST /api/schedules</code>
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="text-center py-12 text-gray-500">Loading schedules...</div>
+            ) : schedules.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <p>No schedules found</p>
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead className="bg-gray-50 border-b">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Schedule
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Cron
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Last Run
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Next Run
+                      </th>
+                      <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Recent Runs
+                      </th>
+                      <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Actions
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {schedules.map((schedule) => (
+                      <tr key={schedule.id} className="hover:bg-gray-50 align-top">
+                        <td className="px-4 py-4 whitespace-nowrap">
+                          <div className="font-medium text-gray-900">{schedule.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {schedule.jobConfig.clientName} ·{' '}
+                            {schedule.jobConfig.jobType === 'PLACE_LIST'
+                              ? `${schedule.jobConfig.placeInputs?.length || 0} places`
+                              : `${schedule.jobConfig.keywords?.length || 0} keywords`}
+                          </div>
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap">
+                          <div className="text-sm font-mono text-gray-900">{schedule.cron}</div>
+                          <div className="text-xs text-gray-500">{schedule.timezone}</div>
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap">
+                          <div className="text-sm text-gray-900">
+                            {schedule.lastRunAt
+                              ? formatDistanceToNow(new Date(schedule.lastRunAt), { addSuffix: true })
+                              : 'Never'}
+                          </div>
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap">
+                          {schedule.enabled && schedule.nextRunAt ? (
+                            <>
+                              <div className="text-sm text-gray-900">
+                                {format(new Date(schedule.nextRunAt), 'PPp')}
+                              </div>
+                              <div className="text-xs text-gray-500">
+                                {formatDistanceToNow(new Date(schedule.nextRunAt), { addSuffix: true })}
+                              </div>
+                            </>
+                          ) : (
+                            <div className="text-sm text-gray-500">Disabled</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-4">
+                          {schedule.jobs.length === 0 ? (
+                            <div className="text-sm text-gray-500">No runs yet</div>
+                          ) : (
+                            <div className="space-y-1">
+                              {schedule.jobs.map((run) => (
+                                <Link
+                                  key={run.id}
+                                  href={`/dashboard/jobs/${run.id}`}
+                                  className="flex items-center gap-2 text-sm text-blue-600 hover:underline"
+                                >
+                                  {format(new Date(run.createdAt), 'PP')}
+                                  {getStatusBadge(run.status)}
+                                  <span className="text-xs text-gray-500">
+                                    {run.scrapedCount.toLocaleString()} places
+                                  </span>
+                                </Link>
+                              ))}
+                              {schedule._count.jobs > schedule.jobs.length && (
+                                <div className="text-xs text-gray-500">
+                                  {schedule._count.jobs - schedule.jobs.length} older runs
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-4 whitespace-nowrap text-right">
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleToggle(schedule)}
+                              disabled={actionLoading}
+                            >
+                              {schedule.enabled ? (
+                                <>
+                                  <Pause className="w-4 h-4 mr-1" />
+                                  Disable
+                                </>
+                              ) : (
+                                <>
+                                  <Play className="w-4 h-4 mr-1" />
+                                  Enable
+                                </>
+                              )}
+                            </Button>
+                            <Button
+                              variant="destructive"
+                              size="sm"
+                              onClick={() => handleDelete(schedule)}
+                              disabled={actionLoading}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,206 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Server } from 'lucide-react'
+import { formatDistanceToNow } from 'date-fns'
+
+interface WorkerSlot {
+  slot: number
+  jobId: string
+  taskId: string
+  clientName: string
+  keyword: string | null
+  location: string | null
+  startedAt: string
+  browserMemoryMb: number | null
+}
+
+interface Worker {
+  id: string
+  hostname: string
+  pid: number
+  concurrency: number
+  startedAt: string
+  lastHeartbeat: string
+  memoryMb: number
+  slots: WorkerSlot[]
+  status: 'alive' | 'lost'
+}
+
+export default function WorkersPage() {
+  const [workers, setWorkers] = useState<Worker[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchWorkers()
+    const interval = setInterval(fetchWorkers, 5000) // Refresh every 5 seconds
+    return () => clearInterval(interval)
+  }, [])
+
+  const fetchWorkers = async () => {
+    try {
+      const response = await fetch('/api/workers')
+      const data = await response.json()
+
+      if (data.success) {
+        setWorkers(data.data)
+      }
+    } catch (error) {
+      console.error('Error fetching workers:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const getStatusBadge = (status: Worker['status']) => {
+    const colors: Record<string, string> = {
+      alive: 'bg-green-100 text-green-800',
+      lost: 'bg-red-100 text-red-800',
+    }
+
+    return (
+      <span className={`px-2 py-1 rounded-full text-xs font-semibold uppercase ${colors[status] || ''}`}>
+        {status}
+      </span>
+    )
+  }
+
+  const aliveCount = workers.filter((worker) => worker.status === 'alive').length
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-white border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+          <div className="flex items-center gap-4">
+            <Link href="/dashboard">
+              <Button variant="ghost" size="sm">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Workers</h1>
+              <p className="mt-1 text-sm text-gray-500">
+                Scrape worker processes and what each of their slots is running
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {loading ? (
+          <div className="text-center py-12 text-gray-500">Loading workers...</div>
+        ) : workers.length === 0 ? (
+          <Card>
+            <CardContent className="text-center py-12 text-gray-500">
+              <Server className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No workers registered, start one with <code>npm run worker</code></p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-500">
+              {aliveCount} of {workers.length} workers alive
+            </p>
+
+            {workers.map((worker) => (
+              <Card key={worker.id} className={worker.status === 'lost' ? 'border-red-200' : ''}>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle className="font-mono text-lg">{worker.id}</CardTitle>
+                      <CardDescription>
+                        {worker.hostname} · PID {worker.pid} · started{' '}
+                        {formatDistanceToNow(new Date(worker.startedAt), { addSuffix: true })}
+                      </CardDescription>
+                    </div>
+                    {getStatusBadge(worker.status)}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-3 gap-4 mb-4">
+                    <div>
+                      <p className="text-sm text-gray-500">Slots in use</p>
+                      <p className="font-semibold">
+                        {worker.slots.length} / {worker.concurrency}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500">Worker memory</p>
+                      <p className="font-semibold">{worker.memoryMb} MB</p>
+                    </div>
+                    <div>
+                      <p className="text-sm text-gray-500">Last heartbeat</p>
+                      <p className={`font-semibold ${worker.status === 'lost' ? 'text-red-600' : ''}`}>
+                        {formatDistanceToNow(new Date(worker.lastHeartbeat), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+
+                  {worker.slots.length === 0 ? (
+                    <div className="text-sm text-gray-500">Idle</div>
+                  ) : (
+                    <div className="overflow-x-auto">
+                      <table className="w-full">
+                        <thead className="bg-gray-50 border-b">
+                          <tr>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Slot
+                            </th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Job
+                            </th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Keyword
+                            </th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Running
+                            </th>
+                            <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                              Browser Memory
+                            </th>
+                          </tr>
+                        </thead>
+                        <tbody className="bg-white divide-y divide-gray-200">
+                          {worker.slots.map((slot) => (
+                            <tr key={slot.slot} className="hover:bg-gray-50">
+                              <td className="px-4 py-3 whitespace-nowrap text-sm font-mono">#{slot.slot}</td>
+                              <td className="px-4 py-3 whitespace-nowrap">
+                                <Link
+                                  href={`/dashboard/jobs/${slot.jobId}`}
+                                  className="text-sm text-blue-600 hover:underline"
+                                >
+                                  {slot.clientName}
+                                </Link>
+                              </td>
+                              <td className="px-4 py-3 text-sm text-gray-900">
+                                {slot.keyword
+                                  ? `${slot.keyword}${slot.location ? ` in ${slot.location}` : ''}`
+                                  : 'Place list'}
+                              </td>
+                              <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                                {formatDistanceToNow(new Date(slot.startedAt))}
+                              </td>
+                              <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">
+                                {slot.browserMemoryMb !== null ? `${slot.browserMemoryMb} MB` : '-'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
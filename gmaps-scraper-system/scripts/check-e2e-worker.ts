@@ -0,0 +1,114 @@
+/**
+ * Run a search job through the scrape worker against the local mock Google Maps server until a CAPTCHA pauses it
+ */
+import 'dotenv/config'
+import { spawn } from 'child_process'
+import path from 'path'
+import { prisma } from '@/lib/prisma'
+import { createJob, parseJobConfig } from '@/services/jobConfig'
+import { startMockMapsServer } from './mock-maps-server'
+
+// Place pages served before the mock shows a CAPTCHA instead
+const CAPTCHA_AFTER = 3
+
+// How long the job may take to reach the CAPTCHA (ms)
+const JOB_TIMEOUT = 180000
+
+let failures = 0
+
+function check(name: string, passed: boolean, detail?: string): void {
+  if (passed) {
+    console.log(`✓ ${name}`)
+  } else {
+    console.error(`✗ ${name}${detail ? `: ${detail}` : ''}`)
+    failures++
+  }
+}
+
+async function waitForJob(jobId: string, statuses: string[]): Promise<string> {
+  const deadline = Date.now() + JOB_TIMEOUT
+  while (Date.now() < deadline) {
+    const { status } = await prisma.job.findUniqueOrThrow({ where: { id: jobId }, select: { status: true } })
+    if (statuses.includes(status)) return status
+    await new Promise((resolve) => setTimeout(resolve, 1000))
+  }
+  throw new Error(`Job ${jobId} did not reach ${statuses.join(' or ')} within ${JOB_TIMEOUT / 1000}s`)
+}
+
+async function main() {
+  const server = await startMockMapsServer({ resultsPerSearch: 10, pageSize: 5, captchaAfter: CAPTCHA_AFTER })
+
+  // The worker runs as its own process, as with npm run worker
+  const tsx = path.join(process.cwd(), 'node_modules', '.bin', 'tsx')
+  const worker = spawn(tsx, ['workers/scrapeWorker.ts'], {
+    env: { ...process.env, GOOGLE_MAPS_BASE_URL: server.url },
+    stdio: 'inherit',
+  })
+  const workerExited = new Promise((resolve) => worker.once('exit', resolve))
+
+  // A query no earlier run stored, so every place is visited instead of linked
+  const query = `mock e2e worker ${Date.now()}`
+  let jobId: string | null = null
+
+  try {
+    const parsed = parseJobConfig({
+      clientName: 'End to end check',
+      keywords: [query],
+      maxResultsPerKeyword: 10,
+      minDelay: 100,
+      maxDelay: 200,
+      cooldownAfter: 1000,
+    })
+    if ('error' in parsed) {
+      throw new Error(parsed.error)
+    }
+    jobId = (await createJob(parsed.config)).id
+
+    const status = await waitForJob(jobId, ['PAUSED', 'COMPLETED', 'FAILED', 'CANCELLED'])
+
+    // The CAPTCHA pauses the job and its task, and the places buffered before it are saved
+    const job = await prisma.job.findUniqueOrThrow({ where: { id: jobId } })
+    check('job paused', status === 'PAUSED', status)
+    check('pause reason', job.pauseReason === 'CAPTCHA detected', job.pauseReason || 'none')
+
+    const tasks = await prisma.jobTask.findMany({ where: { jobId } })
+    check('one task', tasks.length === 1, `got ${tasks.length}`)
+    check('task paused', tasks.every((task) => task.status === 'PAUSED'), tasks.map((task) => task.status).join(','))
+
+    const links = await prisma.jobPlace.findMany({
+      where: { jobId },
+      include: { scrapedPlace: true },
+      orderBy: { searchRank: 'asc' },
+    })
+    const names = links.map((link) => link.scrapedPlace.name)
+    check('places saved before the CAPTCHA', links.length === CAPTCHA_AFTER, `got ${links.length}`)
+    check('job scraped count', job.scrapedCount === links.length, `${job.scrapedCount}`)
+    check(
+      'saved place names',
+      names.join('|') === [1, 2, 3].map((rank) => `${query} #${rank}`).join('|'),
+      names.join(', ')
+    )
+    check('saved keyword', links.every((link) => link.keyword === query))
+
+    const captchaLogs = await prisma.systemLog.count({ where: { jobId, event: 'CAPTCHA_DETECTED' } })
+    check('CAPTCHA logged', captchaLogs === 1, `${captchaLogs}`)
+  } finally {
+    worker.kill('SIGTERM')
+    await workerExited
+    await server.close()
+
+    // The places are only linked to this job
+    if (jobId) {
+      await prisma.scrapedPlace.deleteMany({ where: { jobs: { some: { jobId } } } })
+      await prisma.job.delete({ where: { id: jobId } })
+    }
+  }
+
+  console.log(failures === 0 ? '\nWorker end to end check passed' : `\n${failures} checks failed`)
+  process.exit(failures > 0 ? 1 : 0)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,85 @@
+/**
+ * Run the scraper end to end against the local mock Google Maps server: a search, a place by ID and the CAPTCHA path
+ */
+import { GoogleMapsScraper, ScrapedPlaceData } from '@/services/scraper'
+import { startMockMapsServer } from './mock-maps-server'
+
+const QUERY = 'mock e2e cafe'
+
+let failures = 0
+
+function check(name: string, passed: boolean, detail?: string): void {
+  if (passed) {
+    console.log(`✓ ${name}`)
+  } else {
+    console.error(`✗ ${name}${detail ? `: ${detail}` : ''}`)
+    failures++
+  }
+}
+
+async function main() {
+  const server = await startMockMapsServer({ resultsPerSearch: 5, pageSize: 5, loadDelayMs: 100 })
+  const scraper = new GoogleMapsScraper({
+    baseUrl: server.url,
+    minDelay: 100,
+    maxDelay: 200,
+    cooldownAfter: 1000,
+  })
+
+  try {
+    await scraper.initialize()
+
+    // A search yields each place of the feed with the details of its place page
+    const places: ScrapedPlaceData[] = []
+    for await (const place of scraper.searchPlaces(QUERY, undefined, { maxResults: 3 })) {
+      places.push(place)
+    }
+    check('search returns the first 3 places', places.length === 3, `got ${places.length}`)
+
+    const first = places[0]
+    check('place name', first?.name === `${QUERY} #1`, first?.name)
+    check('place ID', /^0x[0-9a-f]+:0x[0-9a-f]+$/.test(first?.placeId || ''), first?.placeId)
+    check('place address', Boolean(first?.address?.startsWith('Jl. Mock No.1')), first?.address)
+    check('place phone', first?.phone === '+62 361 100000', first?.phone)
+    check('search rank', places.map((place) => place.searchRank).join(',') === '1,2,3')
+
+    // A place list input by place ID
+    const byId = first ? await scraper.scrapePlace(first.placeId) : null
+    check('place by ID', byId?.placeId === first?.placeId, byId?.placeId)
+
+    // A CAPTCHA ends the search with CAPTCHA_DETECTED, which pauses the job in the worker
+    server.setCaptcha(true)
+    let searchError: string | null = null
+    try {
+      for await (const place of scraper.searchPlaces(`${QUERY} again`)) {
+        console.log(`  unexpected place: ${place.name}`)
+      }
+    } catch (error: any) {
+      searchError = error.message
+    }
+    check('CAPTCHA during a search', searchError === 'CAPTCHA_DETECTED', searchError || 'no error')
+
+    let placeError: string | null = null
+    try {
+      await scraper.scrapePlace(first?.placeId || '')
+    } catch (error: any) {
+      placeError = error.message
+    }
+    check('CAPTCHA on a place page', placeError === 'CAPTCHA_DETECTED', placeError || 'no error')
+    check('CAPTCHA pages served', server.stats.captchaPages >= 2, `${server.stats.captchaPages}`)
+  } finally {
+    await scraper.close()
+    await server.close()
+  }
+
+  console.log(failures === 0 ? '\nEnd to end check passed' : `\n${failures} checks failed`)
+
+  if (failures > 0) {
+    process.exit(1)
+  }
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
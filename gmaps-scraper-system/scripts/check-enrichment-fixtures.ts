@@ -0,0 +1,64 @@
+/**
+ * Run the website enrichment crawler against the sites in fixtures/websites and compare with their expected.json
+ */
+import fs from 'fs'
+import path from 'path'
+import { isDeepStrictEqual } from 'util'
+import { crawlWebsite } from '@/services/enrichment'
+import { startMockWebsiteServer, websitesDir } from './mock-website-server'
+
+interface WebsiteFixture {
+  expected: Record<string, Array<{ value: string; page: string }>>
+}
+
+async function main() {
+  const server = await startMockWebsiteServer()
+
+  const sites = fs
+    .readdirSync(websitesDir)
+    .filter((name) => fs.existsSync(path.join(websitesDir, name, 'expected.json')))
+    .sort()
+
+  let failures = 0
+
+  try {
+    for (const site of sites) {
+      const fixture: WebsiteFixture = JSON.parse(
+        fs.readFileSync(path.join(websitesDir, site, 'expected.json'), 'utf8')
+      )
+      const siteRoot = `${server.url}/${site}`
+
+      const sources = await crawlWebsite(`${siteRoot}/`, { timeoutMs: 5000 })
+
+      // Make provenance URLs independent of the server port
+      const actual = Object.fromEntries(
+        Object.entries(sources).map(([field, list]) => [
+          field,
+          (list || []).map((source) => ({
+            value: source.value,
+            page: (source.url || '').replace(siteRoot, ''),
+          })),
+        ])
+      )
+
+      if (isDeepStrictEqual(actual, fixture.expected)) {
+        console.log(`✓ ${site}`)
+      } else {
+        console.error(`✗ ${site}: contacts do not match`)
+        console.error(`  expected: ${JSON.stringify(fixture.expected, null, 2)}`)
+        console.error(`  actual:   ${JSON.stringify(actual, null, 2)}`)
+        failures++
+      }
+    }
+  } finally {
+    await server.close()
+  }
+
+  console.log(`\n${sites.length - failures}/${sites.length} websites passed`)
+
+  if (failures > 0) {
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,96 @@
+/**
+ * Run the place page parsers under jsdom against the saved snapshots in fixtures/places
+ */
+import fs from 'fs'
+import path from 'path'
+import { isDeepStrictEqual } from 'util'
+import { JSDOM } from 'jsdom'
+import {
+  buildPageScript,
+  parseAboutAttributes,
+  parseOpeningHours,
+  parsePlaceDocument,
+  parseReviews,
+} from '@/services/placeParser'
+
+interface PlaceFixture {
+  url: string
+  fields: string[]
+  expected: Record<string, unknown> | null
+  expectedOpeningHours?: Record<string, string> | null
+  expectedAmenities?: Record<string, Record<string, boolean>> | null
+  reviewsLimit?: number
+  expectedReviews?: Record<string, unknown>[]
+}
+
+const fixturesDir = path.join(process.cwd(), 'fixtures', 'places')
+
+function runInPage(dom: JSDOM, script: string): unknown {
+  // Round-trip through JSON like puppeteer's page.evaluate does
+  return JSON.parse(JSON.stringify(dom.window.eval(script) ?? null))
+}
+
+function reportMismatch(name: string, label: string, actual: unknown, expected: unknown): void {
+  console.error(`✗ ${name}: ${label} does not match`)
+  console.error(`  expected: ${JSON.stringify(expected, null, 2)}`)
+  console.error(`  actual:   ${JSON.stringify(actual, null, 2)}`)
+}
+
+const names = fs
+  .readdirSync(fixturesDir)
+  .filter((file) => file.endsWith('.html'))
+  .map((file) => file.replace(/\.html$/, ''))
+  .sort()
+
+let failures = 0
+
+for (const name of names) {
+  const html = fs.readFileSync(path.join(fixturesDir, `${name}.html`), 'utf8')
+  const fixture: PlaceFixture = JSON.parse(
+    fs.readFileSync(path.join(fixturesDir, `${name}.json`), 'utf8')
+  )
+
+  const dom = new JSDOM(html, { url: fixture.url, runScripts: 'outside-only' })
+
+  const place = runInPage(dom, buildPageScript(parsePlaceDocument, [fixture.url, fixture.fields]))
+  let passed = isDeepStrictEqual(place, fixture.expected)
+  if (!passed) {
+    reportMismatch(name, 'place data', place, fixture.expected)
+  }
+
+  if (fixture.expectedOpeningHours !== undefined) {
+    const hours = runInPage(dom, buildPageScript(parseOpeningHours))
+    if (!isDeepStrictEqual(hours, fixture.expectedOpeningHours)) {
+      reportMismatch(name, 'opening hours', hours, fixture.expectedOpeningHours)
+      passed = false
+    }
+  }
+
+  if (fixture.expectedAmenities !== undefined) {
+    const amenities = runInPage(dom, buildPageScript(parseAboutAttributes))
+    if (!isDeepStrictEqual(amenities, fixture.expectedAmenities)) {
+      reportMismatch(name, 'amenities', amenities, fixture.expectedAmenities)
+      passed = false
+    }
+  }
+
+  if (fixture.expectedReviews !== undefined) {
+    const reviews = runInPage(dom, buildPageScript(parseReviews, [fixture.reviewsLimit ?? 20]))
+    if (!isDeepStrictEqual(reviews, fixture.expectedReviews)) {
+      reportMismatch(name, 'reviews', reviews, fixture.expectedReviews)
+      passed = false
+    }
+  }
+
+  if (passed) {
+    console.log(`✓ ${name}`)
+  } else {
+    failures++
+  }
+}
+
+console.log(`\n${names.length - failures}/${names.length} fixtures passed`)
+
+if (failures > 0) {
+  process.exit(1)
+}
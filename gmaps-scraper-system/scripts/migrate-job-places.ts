@@ -0,0 +1,105 @@
+/**
+ * Keep the job of every stored place across the migration that replaces ScrapedPlace.jobId with JobPlace links
+ */
+import 'dotenv/config'
+import { prisma } from '@/lib/prisma'
+import { SCRAPE_FIELDS } from '@/services/scraper'
+
+// The saved links live outside the public schema, so `prisma migrate` neither drops them nor reports them as drift
+const BACKFILL_SCHEMA = 'job_place_backfill'
+const BACKFILL_TABLE = `"${BACKFILL_SCHEMA}"."ScrapedPlaceJob"`
+
+async function tableHasColumn(table: string, column: string): Promise<boolean> {
+  const rows = await prisma.$queryRaw<Array<{ found: number }>>`
+    SELECT 1 AS found FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = ${table} AND column_name = ${column}`
+  return rows.length > 0
+}
+
+async function backfillSaved(): Promise<boolean> {
+  const rows = await prisma.$queryRaw<Array<{ found: number }>>`
+    SELECT 1 AS found FROM information_schema.tables
+    WHERE table_schema = ${BACKFILL_SCHEMA} AND table_name = 'ScrapedPlaceJob'`
+  return rows.length > 0
+}
+
+// Before the migration: copy the job of every place and the field groups that job scraped
+async function save(): Promise<void> {
+  if (!(await tableHasColumn('ScrapedPlace', 'jobId'))) {
+    throw new Error('ScrapedPlace.jobId does not exist, the migration already ran or the database is new')
+  }
+
+  const saved = await prisma.$transaction(async (tx) => {
+    await tx.$executeRawUnsafe(`CREATE SCHEMA IF NOT EXISTS "${BACKFILL_SCHEMA}"`)
+    await tx.$executeRawUnsafe(`DROP TABLE IF EXISTS ${BACKFILL_TABLE}`)
+    await tx.$executeRawUnsafe(`
+      CREATE TABLE ${BACKFILL_TABLE} AS
+      SELECT p."id" AS "scrapedPlaceId", p."jobId", p."scrapedAt", j."fieldsToScrape"
+      FROM "ScrapedPlace" p
+      JOIN "Job" j ON j."id" = p."jobId"`)
+    const [{ count }] = await tx.$queryRawUnsafe<Array<{ count: number }>>(
+      `SELECT COUNT(*)::int AS count FROM ${BACKFILL_TABLE}`
+    )
+    return count
+  })
+
+  console.log(`✓ Saved the jobs of ${saved} places, run the migration next`)
+}
+
+// After the migration: link every place to the job that stored it, then drop the saved copy
+async function restore(): Promise<void> {
+  if (!(await backfillSaved())) {
+    throw new Error('No saved job links, run the save step before the migration')
+  }
+  if (!(await tableHasColumn('ScrapedPlace', 'scrapedFields'))) {
+    throw new Error('The JobPlace migration has not been applied yet')
+  }
+
+  const { linked, updated } = await prisma.$transaction(async (tx) => {
+    // Keyword, location and search rank were not recorded before, so the links leave them empty
+    const linked = await tx.$executeRawUnsafe(`
+      INSERT INTO "JobPlace" ("id", "jobId", "scrapedPlaceId", "firstSeenAt")
+      SELECT 'jp_' || b."scrapedPlaceId", b."jobId", b."scrapedPlaceId", b."scrapedAt"
+      FROM ${BACKFILL_TABLE} b
+      JOIN "ScrapedPlace" p ON p."id" = b."scrapedPlaceId"
+      JOIN "Job" j ON j."id" = b."jobId"
+      ON CONFLICT DO NOTHING`)
+
+    // Jobs created before field selection existed scraped every field group
+    const updated = await tx.$executeRawUnsafe(
+      `
+      UPDATE "ScrapedPlace" p
+      SET "scrapedFields" = COALESCE(b."fieldsToScrape", $1::jsonb)
+      FROM ${BACKFILL_TABLE} b
+      WHERE p."id" = b."scrapedPlaceId" AND p."scrapedFields" IS NULL`,
+      JSON.stringify(SCRAPE_FIELDS)
+    )
+
+    await tx.$executeRawUnsafe(`DROP SCHEMA "${BACKFILL_SCHEMA}" CASCADE`)
+    return { linked, updated }
+  })
+
+  console.log(`✓ Linked ${linked} places to their jobs and recorded the field groups of ${updated}`)
+}
+
+async function main() {
+  const step = process.argv[2]
+
+  try {
+    if (step === 'save') {
+      await save()
+    } else if (step === 'restore') {
+      await restore()
+    } else {
+      console.error('Usage: npm run migrate:job-places -- save|restore')
+      process.exitCode = 1
+    }
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+main().catch((error) => {
+  console.error(`❌ ${error.message}`)
+  process.exit(1)
+})
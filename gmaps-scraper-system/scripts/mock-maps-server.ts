@@ -0,0 +1,342 @@
+/**
+ * Local mock of the Google Maps search and place pages the scraper visits, for running the worker without network
+ */
+import fs from 'fs'
+import http from 'http'
+import path from 'path'
+import { AddressInfo } from 'net'
+
+export interface MockPlace {
+  placeId: string
+  name: string
+  address?: string
+  phone?: string
+  rating?: number
+  reviewsCount?: number
+  category?: string
+  website?: string
+  latitude: number
+  longitude: number
+  // Serve fixtures/places/<snapshot>.html instead of rendering the page
+  snapshot?: string
+}
+
+export interface MockMapsServerOptions {
+  port?: number
+  // Places returned for queries that are not recorded
+  resultsPerSearch?: number
+  // Places rendered initially and appended per scroll
+  pageSize?: number
+  // Delay before the next page of results appears after a scroll (ms)
+  loadDelayMs?: number
+  // Serve the CAPTCHA page once this many place pages have been served
+  captchaAfter?: number
+  // Viewport searches below this zoom level return the results cap, so grid cells get split
+  saturateBelowZoom?: number
+}
+
+export interface MockMapsServer {
+  url: string
+  stats: { searches: number; placePages: number; captchaPages: number }
+  setCaptcha(enabled: boolean): void
+  close(): Promise<void>
+}
+
+const fixturesDir = path.join(process.cwd(), 'fixtures')
+
+function loadRecordedSearches(): Record<string, MockPlace[]> {
+  const file = path.join(fixturesDir, 'mock-maps', 'searches.json')
+  if (!fs.existsSync(file)) return {}
+
+  const searches: Record<string, MockPlace[]> = JSON.parse(fs.readFileSync(file, 'utf8'))
+
+  // Match queries case-insensitively
+  return Object.fromEntries(
+    Object.entries(searches).map(([query, places]) => [query.toLowerCase(), places])
+  )
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function hashString(value: string): number {
+  let hash = 0
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0
+  }
+  return hash
+}
+
+// Google stops a search feed at about this many results
+const RESULTS_CAP = 120
+
+function generatePlaces(
+  query: string,
+  count: number,
+  center = { latitude: -8.6, longitude: 115.1, spread: 0.001 }
+): MockPlace[] {
+  const seed = hashString(query)
+
+  return Array.from({ length: count }, (_, i) => {
+    const hex = (seed + i).toString(16).padStart(8, '0')
+    return {
+      placeId: `0x${hex}00000000:0x${hex}${i.toString(16).padStart(8, '0')}`,
+      name: `${query} #${i + 1}`,
+      address: `Jl. Mock No.${i + 1}, Kuta Utara, Badung Regency, Bali 80361, Indonesia`,
+      phone: `+62 361 ${String(100000 + i)}`,
+      rating: 3 + ((seed + i) % 20) / 10,
+      reviewsCount: 10 + ((seed * (i + 1)) % 2000),
+      category: 'Restaurant',
+      latitude: Number((center.latitude - (i % 11) * center.spread).toFixed(6)),
+      longitude: Number((center.longitude + Math.floor(i / 11) * center.spread).toFixed(6)),
+    }
+  })
+}
+
+export function placePath(place: MockPlace): string {
+  const slug = encodeURIComponent(place.name).replace(/%20/g, '+')
+  const { latitude: lat, longitude: lng } = place
+  return `/maps/place/${slug}/@${lat},${lng},17z/data=!4m6!3m5!1s${place.placeId}!8m2!3d${lat}!4d${lng}`
+}
+
+function renderSearchPage(places: MockPlace[], pageSize: number, loadDelayMs: number): string {
+  const links = places.map((place) => ({ href: placePath(place), name: place.name }))
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <title>Google Maps</title>
+  <style>
+    #feed { height: 800px; overflow-y: auto; }
+    .result { display: block; height: 120px; }
+  </style>
+</head>
+<body>
+  <div role="feed" id="feed" aria-label="Results"></div>
+  <script>
+    const links = ${JSON.stringify(links)}
+    const feed = document.getElementById('feed')
+    let rendered = 0
+    let loading = false
+
+    function renderNextPage() {
+      links.slice(rendered, rendered + ${pageSize}).forEach((link) => {
+        const a = document.createElement('a')
+        a.className = 'result'
+        a.href = link.href
+        a.setAttribute('aria-label', link.name)
+        a.textContent = link.name
+        feed.appendChild(a)
+      })
+      rendered = Math.min(rendered + ${pageSize}, links.length)
+
+      if (rendered >= links.length && !document.getElementById('end-of-list')) {
+        const end = document.createElement('p')
+        end.id = 'end-of-list'
+        end.textContent = "You've reached the end of the list."
+        feed.appendChild(end)
+      }
+    }
+
+    feed.addEventListener('scroll', () => {
+      if (loading || rendered >= links.length) return
+      if (feed.scrollTop + feed.clientHeight < feed.scrollHeight - 200) return
+
+      loading = true
+      setTimeout(() => {
+        renderNextPage()
+        loading = false
+      }, ${loadDelayMs})
+    })
+
+    renderNextPage()
+  </script>
+</body>
+</html>`
+}
+
+function renderPlacePage(place: MockPlace): string {
+  const button = (itemId: string, label: string, value: string) =>
+    `<button data-item-id="${itemId}" aria-label="${escapeHtml(`${label}: ${value}`)}">${escapeHtml(value)}</button>`
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><title>${escapeHtml(place.name)} - Google Maps</title></head>
+<body>
+  <div role="main" aria-label="${escapeHtml(place.name)}">
+    <h1>${escapeHtml(place.name)}</h1>
+    ${
+      place.rating !== undefined
+        ? `<span role="img" aria-label="${place.rating} stars "></span>`
+        : ''
+    }
+    ${
+      place.reviewsCount !== undefined
+        ? `<button aria-label="${place.reviewsCount.toLocaleString('en-US')} reviews">(${place.reviewsCount})</button>`
+        : ''
+    }
+    ${place.category ? `<button jsaction="pane.rating.category">${escapeHtml(place.category)}</button>` : ''}
+    ${place.address ? button('address', 'Address', place.address) : ''}
+    ${place.website ? `<a data-item-id="authority" href="${escapeHtml(place.website)}">${escapeHtml(place.website)}</a>` : ''}
+    ${place.phone ? button(`phone:tel:${place.phone.replace(/\s/g, '')}`, 'Phone', place.phone) : ''}
+  </div>
+</body>
+</html>`
+}
+
+function renderCaptchaPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><title>Sorry...</title></head>
+<body>
+  <div id="captcha">
+    <p>Our systems have detected unusual traffic from your computer network.</p>
+    <div class="g-recaptcha" data-sitekey="mock"></div>
+  </div>
+</body>
+</html>`
+}
+
+export async function startMockMapsServer(
+  options: MockMapsServerOptions = {}
+): Promise<MockMapsServer> {
+  const {
+    port = 0,
+    resultsPerSearch = 45,
+    pageSize = 20,
+    loadDelayMs = 500,
+    captchaAfter,
+    saturateBelowZoom = 14,
+  } = options
+
+  const recordedSearches = loadRecordedSearches()
+  const placesById = new Map<string, MockPlace>()
+  const stats = { searches: 0, placePages: 0, captchaPages: 0 }
+  let captchaEnabled = false
+
+  const send = (res: http.ServerResponse, status: number, body: string, type = 'text/html') => {
+    res.writeHead(status, { 'Content-Type': `${type}; charset=utf-8` })
+    res.end(body)
+  }
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost')
+    const pathname = decodeURIComponent(url.pathname)
+
+    // Control endpoints
+    if (pathname === '/__mock/stats') {
+      return send(res, 200, JSON.stringify({ ...stats, captchaEnabled }), 'application/json')
+    }
+    if (pathname === '/__mock/reset') {
+      stats.searches = 0
+      stats.placePages = 0
+      stats.captchaPages = 0
+      captchaEnabled = false
+      return send(res, 200, JSON.stringify({ success: true }), 'application/json')
+    }
+    if (pathname === '/__mock/captcha') {
+      captchaEnabled = url.searchParams.get('enabled') !== '0'
+      return send(res, 200, JSON.stringify({ success: true, captchaEnabled }), 'application/json')
+    }
+
+    if (
+      captchaEnabled ||
+      url.searchParams.get('captcha') === '1' ||
+      (captchaAfter !== undefined && stats.placePages >= captchaAfter)
+    ) {
+      stats.captchaPages++
+      return send(res, 429, renderCaptchaPage())
+    }
+
+    if (pathname.startsWith('/maps/search/')) {
+      const [rawQuery, viewportPart] = pathname.slice('/maps/search/'.length).split('/@')
+      const query = rawQuery.replace(/\+/g, ' ')
+      const viewport = viewportPart?.match(/^(-?[\d.]+),(-?[\d.]+),([\d.]+)z/)
+
+      let places: MockPlace[]
+      if (viewport) {
+        // Each viewport has its own places, spread around its center
+        const [, lat, lng, zoom] = viewport.map(Number)
+        const count = zoom < saturateBelowZoom ? RESULTS_CAP : resultsPerSearch
+        places = generatePlaces(`${query} @${lat},${lng},${zoom}z`, count, {
+          latitude: lat,
+          longitude: lng,
+          spread: 0.2 / Math.pow(2, zoom - 10),
+        })
+      } else {
+        places = recordedSearches[query.toLowerCase()] || generatePlaces(query, resultsPerSearch)
+      }
+
+      places.forEach((place) => placesById.set(place.placeId, place))
+      stats.searches++
+
+      return send(res, 200, renderSearchPage(places, pageSize, loadDelayMs))
+    }
+
+    if (pathname.startsWith('/maps/place/')) {
+      const placeIdQuery = (url.searchParams.get('q') || '').match(/^place_id:(.+)$/)
+      if (placeIdQuery) {
+        const [place] = generatePlaces(placeIdQuery[1], 1)
+        placesById.set(place.placeId, place)
+        res.writeHead(302, { Location: placePath(place) })
+        return res.end()
+      }
+
+      const match = pathname.match(/!1s([^!]+)/)
+      let place = match ? placesById.get(match[1]) : undefined
+
+      // Places requested directly by ID
+      if (!place && match && /^0x[0-9a-f]+:0x[0-9a-f]+$/i.test(match[1])) {
+        place = { ...generatePlaces(match[1], 1)[0], placeId: match[1] }
+        placesById.set(place.placeId, place)
+      }
+
+      if (!place) {
+        return send(res, 404, '<!DOCTYPE html><html><body><p>Place not found</p></body></html>')
+      }
+
+      stats.placePages++
+
+      if (place.snapshot) {
+        const snapshotFile = path.join(fixturesDir, 'places', `${place.snapshot}.html`)
+        return send(res, 200, fs.readFileSync(snapshotFile, 'utf8'))
+      }
+
+      return send(res, 200, renderPlacePage(place))
+    }
+
+    send(res, 404, '<!DOCTYPE html><html><body><p>Not found</p></body></html>')
+  })
+
+  await new Promise<void>((resolve) => server.listen(port, resolve))
+  const { port: actualPort } = server.address() as AddressInfo
+
+  return {
+    url: `http://localhost:${actualPort}`,
+    stats,
+    setCaptcha(enabled: boolean) {
+      captchaEnabled = enabled
+    },
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  }
+}
+
+if (require.main === module) {
+  startMockMapsServer({
+    port: parseInt(process.env.MOCK_MAPS_PORT || '4010'),
+    captchaAfter: process.env.MOCK_MAPS_CAPTCHA_AFTER
+      ? parseInt(process.env.MOCK_MAPS_CAPTCHA_AFTER)
+      : undefined,
+  }).then((server) => {
+    console.log(`🗺️  Mock Google Maps server listening on ${server.url}`)
+    console.log(`   Start the worker with GOOGLE_MAPS_BASE_URL=${server.url}`)
+  })
+}
@@ -0,0 +1,62 @@
+/**
+ * Local HTTP server for the business websites in fixtures/websites, for running the enrichment crawler without network
+ */
+import fs from 'fs'
+import http from 'http'
+import path from 'path'
+import { AddressInfo } from 'net'
+
+export interface MockWebsiteServer {
+  url: string
+  // Paths requested so far, e.g. "/kopi-canggu/contact.html"
+  requests: string[]
+  close(): Promise<void>
+}
+
+export const websitesDir = path.join(process.cwd(), 'fixtures', 'websites')
+
+export async function startMockWebsiteServer(port = 0): Promise<MockWebsiteServer> {
+  const requests: string[] = []
+
+  const server = http.createServer((req, res) => {
+    const pathname = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname)
+    requests.push(pathname)
+
+    let file = path.join(websitesDir, path.normalize(pathname))
+    if (pathname.endsWith('/')) {
+      file = path.join(file, 'index.html')
+    }
+
+    if (!file.startsWith(websitesDir) || !file.endsWith('.html') || !fs.existsSync(file)) {
+      res.writeHead(404, { 'Content-Type': 'text/html; charset=utf-8' })
+      res.end('<!DOCTYPE html><html><body><p>Not found</p></body></html>')
+      return
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' })
+    res.end(fs.readFileSync(file, 'utf8'))
+  })
+
+  await new Promise<void>((resolve) => server.listen(port, resolve))
+  const { port: actualPort } = server.address() as AddressInfo
+
+  return {
+    url: `http://localhost:${actualPort}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      ),
+  }
+}
+
+if (require.main === module) {
+  startMockWebsiteServer(parseInt(process.env.MOCK_WEBSITES_PORT || '4020')).then((server) => {
+    const sites = fs.readdirSync(websitesDir).filter((name) =>
+      fs.statSync(path.join(websitesDir, name)).isDirectory()
+    )
+
+    console.log(`🌐 Mock website server listening on ${server.url}`)
+    sites.forEach((site) => console.log(`   ${server.url}/${site}/`))
+  })
+}
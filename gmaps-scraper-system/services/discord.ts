@@ -49,10 +49,11 @@ export async function notifyJobStarted(job: {
   clientName: string
   keywords: string[]
   maxResultsPerKeyword: number
+  placeCount?: number // Place list jobs
   estimatedDuration?: number
 }): Promise<void> {
   const totalKeywords = job.keywords.length
-  const estimatedTotal = totalKeywords * job.maxResultsPerKeyword
+  const estimatedTotal = job.placeCount ?? totalKeywords * job.maxResultsPerKeyword
   const estimatedHours = job.estimatedDuration
     ? Math.round(job.estimatedDuration / 3600)
     : 'Unknown'
@@ -68,11 +69,17 @@ export async function notifyJobStarted(job: {
           value: job.id,
           inline: true,
         },
-        {
-          name: 'Keywords',
-          value: totalKeywords.toString(),
-          inline: true,
-        },
+        job.placeCount !== undefined
+          ? {
+              name: 'Places',
+              value: job.placeCount.toString(),
+              inline: true,
+            }
+          : {
+              name: 'Keywords',
+              value: totalKeywords.toString(),
+              inline: true,
+            },
         {
           name: 'Estimated Total',
           value: `~${estimatedTotal} places`,
@@ -172,6 +179,33 @@ export async function notifyJobPaused(job: {
   ])
 }
 
+export async function notifyJobCancelled(job: {
+  id: string
+  clientName: string
+  scrapedCount: number
+}): Promise<void> {
+  await sendWebhook([
+    {
+      title: '🛑 Job Cancelled',
+      description: `Job cancelled for **${job.clientName}**`,
+      color: COLORS.warning,
+      fields: [
+        {
+          name: 'Job ID',
+          value: job.id,
+          inline: true,
+        },
+        {
+          name: 'Progress',
+          value: `${job.scrapedCount} places scraped`,
+          inline: true,
+        },
+      ],
+      timestamp: new Date().toISOString(),
+    },
+  ])
+}
+
 export async function notifyJobFailed(job: {
   id: string
   clientName: string
@@ -0,0 +1,251 @@
+import type { ScrapedPlaceData } from '@/services/scraper'
+
+export const CONTACT_FIELDS = [
+  'email',
+  'phone',
+  'facebook',
+  'instagram',
+  'twitter',
+  'linkedin',
+  'tiktok',
+  'whatsapp',
+] as const
+
+export type ContactField = (typeof CONTACT_FIELDS)[number]
+
+/**
+ * Where a contact value came from: the Maps place page, or a page of the business website
+ */
+export interface ContactSource {
+  value: string
+  source: 'maps' | 'website'
+  url?: string
+}
+
+export type ContactSources = Partial<Record<ContactField, ContactSource[]>>
+
+export interface CrawlOptions {
+  // Pages fetched per website, including the homepage
+  maxPages?: number
+  // Timeout per page request (ms)
+  timeoutMs?: number
+}
+
+// Links on the homepage that usually lead to contact details
+const CONTACT_PAGE_PATTERN = /contact|about|kontak|hubungi|tentang|impressum/i
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi
+
+// Matches that look like emails but are asset names or placeholders
+const IGNORED_EMAIL_PATTERN = /\.(png|jpe?g|gif|svg|webp)$|@(example\.com|sentry|.*wixpress\.com)/i
+
+function addSource(sources: ContactSources, field: ContactField, source: ContactSource): void {
+  const list = sources[field] || []
+  const normalized = source.value.toLowerCase()
+
+  if (!list.some((existing) => existing.value.toLowerCase() === normalized)) {
+    list.push(source)
+  }
+  sources[field] = list
+}
+
+/**
+ * Classify a link as a social profile, ignoring share buttons and single posts
+ */
+function classifySocialLink(url: URL): ContactField | null {
+  const host = url.hostname.replace(/^www\./, '').replace(/^m\./, '')
+  const firstSegment = url.pathname.split('/').filter(Boolean)[0] || ''
+
+  if (host === 'facebook.com' || host === 'fb.com') {
+    return firstSegment && !['sharer', 'sharer.php', 'plugins', 'tr', 'dialog'].includes(firstSegment)
+      ? 'facebook'
+      : null
+  }
+  if (host === 'instagram.com') {
+    return firstSegment && !['p', 'reel', 'explore', 'stories'].includes(firstSegment)
+      ? 'instagram'
+      : null
+  }
+  if (host === 'twitter.com' || host === 'x.com') {
+    return firstSegment && !['intent', 'share', 'home'].includes(firstSegment) ? 'twitter' : null
+  }
+  if (host === 'linkedin.com') {
+    return ['company', 'in', 'school'].includes(firstSegment) ? 'linkedin' : null
+  }
+  if (host === 'tiktok.com') {
+    return firstSegment.startsWith('@') ? 'tiktok' : null
+  }
+  if (host === 'wa.me' || host === 'api.whatsapp.com' || host === 'whatsapp.com') {
+    return 'whatsapp'
+  }
+  return null
+}
+
+/**
+ * Extract emails, phone numbers and social profiles from one HTML page
+ */
+export function extractContacts(html: string, pageUrl: string): ContactSources {
+  const sources: ContactSources = {}
+  const fromPage = (value: string): ContactSource => ({ value, source: 'website', url: pageUrl })
+
+  const hrefPattern = /href\s*=\s*["']([^"']+)["']/gi
+  let match: RegExpExecArray | null
+
+  while ((match = hrefPattern.exec(html)) !== null) {
+    const href = match[1].trim().replace(/&amp;/g, '&')
+
+    if (href.toLowerCase().startsWith('mailto:')) {
+      const email = decodeURIComponent(href.slice('mailto:'.length).split('?')[0]).trim()
+      if (email && !IGNORED_EMAIL_PATTERN.test(email)) {
+        addSource(sources, 'email', fromPage(email))
+      }
+      continue
+    }
+
+    if (href.toLowerCase().startsWith('tel:')) {
+      const phone = decodeURIComponent(href.slice('tel:'.length)).trim()
+      if (phone) {
+        addSource(sources, 'phone', fromPage(phone))
+      }
+      continue
+    }
+
+    let url: URL
+    try {
+      url = new URL(href, pageUrl)
+    } catch {
+      continue
+    }
+
+    const field = classifySocialLink(url)
+    if (field) {
+      addSource(sources, field, fromPage(url.toString()))
+    }
+  }
+
+  // Emails written as plain text
+  const text = html.replace(/<script[\s\S]*?<\/script>|<style[\s\S]*?<\/style>/gi, ' ').replace(/<[^>]+>/g, ' ')
+  for (const email of text.match(EMAIL_PATTERN) || []) {
+    if (!IGNORED_EMAIL_PATTERN.test(email)) {
+      addSource(sources, 'email', fromPage(email))
+    }
+  }
+
+  return sources
+}
+
+/**
+ * Find same-site links that likely lead to contact details
+ */
+export function findContactPages(html: string, pageUrl: string): string[] {
+  const base = new URL(pageUrl)
+  const pages: string[] = []
+  const anchorPattern = /<a\b[^>]*href\s*=\s*["']([^"'#]+)["'][^>]*>([\s\S]*?)<\/a>/gi
+  let match: RegExpExecArray | null
+
+  while ((match = anchorPattern.exec(html)) !== null) {
+    const [, href, label] = match
+    if (!CONTACT_PAGE_PATTERN.test(href) && !CONTACT_PAGE_PATTERN.test(label)) continue
+
+    try {
+      const url = new URL(href, base)
+      url.hash = ''
+      if (url.hostname === base.hostname && /^https?:$/.test(url.protocol)) {
+        const normalized = url.toString()
+        if (normalized !== base.toString() && !pages.includes(normalized)) {
+          pages.push(normalized)
+        }
+      }
+    } catch {
+      // Ignore malformed links
+    }
+  }
+
+  return pages
+}
+
+async function fetchPage(url: string, timeoutMs: number): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent':
+          'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
+        'Accept': 'text/html,application/xhtml+xml',
+      },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(timeoutMs),
+    })
+
+    const contentType = response.headers.get('content-type') || ''
+    if (!response.ok || !contentType.includes('html')) {
+      return null
+    }
+
+    return await response.text()
+  } catch (error: any) {
+    console.log(`  ✗ Could not fetch ${url}: ${error.message}`)
+    return null
+  }
+}
+
+/**
+ * Crawl a business website (homepage plus likely contact/about pages) for contact details
+ */
+export async function crawlWebsite(
+  website: string,
+  options: CrawlOptions = {}
+): Promise<ContactSources> {
+  const { maxPages = 4, timeoutMs = 10000 } = options
+
+  const homepage = /^https?:\/\//i.test(website) ? website : `https://${website}`
+  const html = await fetchPage(homepage, timeoutMs)
+
+  if (html === null) {
+    throw new Error(`Website not reachable: ${homepage}`)
+  }
+
+  const sources = extractContacts(html, homepage)
+  const pages = findContactPages(html, homepage).slice(0, maxPages - 1)
+
+  for (const page of pages) {
+    const pageHtml = await fetchPage(page, timeoutMs)
+    if (pageHtml === null) continue
+
+    const pageSources = extractContacts(pageHtml, page)
+    CONTACT_FIELDS.forEach((field) => {
+      pageSources[field]?.forEach((source) => addSource(sources, field, source))
+    })
+  }
+
+  return sources
+}
+
+/**
+ * Record the contact values found on the Maps place page
+ */
+export function contactSourcesFromPlace(place: ScrapedPlaceData): ContactSources {
+  const sources: ContactSources = {}
+
+  CONTACT_FIELDS.forEach((field) => {
+    const value = place[field as keyof ScrapedPlaceData]
+    if (typeof value === 'string' && value) {
+      addSource(sources, field, { value, source: 'maps' })
+    }
+  })
+
+  return sources
+}
+
+/**
+ * Merge newly found sources into the existing ones, keeping existing entries first
+ */
+export function mergeContactSources(existing: ContactSources, found: ContactSources): ContactSources {
+  const merged: ContactSources = {}
+
+  CONTACT_FIELDS.forEach((field) => {
+    existing[field]?.forEach((source) => addSource(merged, field, source))
+    found[field]?.forEach((source) => addSource(merged, field, source))
+  })
+
+  return merged
+}
@@ -1,5 +1,8 @@
 import { createObjectCsvWriter } from 'csv-writer'
+import type { ScrapedPlace } from '@prisma/client'
 import { prisma } from '@/lib/prisma'
+import type { AmenityGroups } from '@/services/scraper'
+import type { ContactSources } from '@/services/enrichment'
 import path from 'path'
 import fs from 'fs'
 
@@ -19,11 +22,13 @@ export async function generateCSV(options: ExportOptions): Promise<string> {
 
   const fieldsToScrape = (job.fieldsToScrape as string[]) || []
 
-  // Get all scraped places for this job
-  const places = await prisma.scrapedPlace.findMany({
+  // Get all places this job found, including places other jobs stored first
+  const links = await prisma.jobPlace.findMany({
     where: { jobId },
-    orderBy: { scrapedAt: 'asc' },
+    include: { scrapedPlace: true },
+    orderBy: { firstSeenAt: 'asc' },
   })
+  const places = links.map((link) => link.scrapedPlace)
 
   if (places.length === 0) {
     throw new Error('No data to export')
@@ -48,6 +53,15 @@ export async function generateCSV(options: ExportOptions): Promise<string> {
     { id: 'placeId', title: 'Place ID' },
   ]
 
+  // Where the job found each place
+  const includeSearch = job.jobType === 'SEARCH'
+  if (includeSearch) {
+    headers.push({ id: 'keyword', title: 'Keyword' })
+    headers.push({ id: 'location', title: 'Location' })
+    headers.push({ id: 'searchRank', title: 'Search Rank' })
+  }
+  headers.push({ id: 'firstSeenAt', title: 'First Seen' })
+
   // Add optional fields based on job configuration
   if (fieldsToScrape.includes('city')) {
     headers.push({ id: 'city', title: 'City' })
@@ -67,12 +81,43 @@ export async function generateCSV(options: ExportOptions): Promise<string> {
     headers.push({ id: 'businessStatus', title: 'Business Status' })
     headers.push({ id: 'businessTypes', title: 'Business Types' })
   }
-  if (fieldsToScrape.includes('socialMedia')) {
+  // Enrichment fills the social columns from the website, so they are exported even if not scraped from Maps
+  const includeSocial = fieldsToScrape.includes('socialMedia') || job.enrichWebsites
+  if (includeSocial) {
+    headers.push({ id: 'email', title: 'Email' })
     headers.push({ id: 'facebook', title: 'Facebook' })
     headers.push({ id: 'instagram', title: 'Instagram' })
     headers.push({ id: 'twitter', title: 'Twitter' })
     headers.push({ id: 'linkedin', title: 'LinkedIn' })
   }
+  if (job.enrichWebsites) {
+    headers.push({ id: 'tiktok', title: 'TikTok' })
+    headers.push({ id: 'whatsapp', title: 'WhatsApp' })
+    headers.push({ id: 'contactSources', title: 'Contact Sources' })
+  }
+
+  // Flatten About attributes into one boolean column per "Group: Attribute" seen in this job
+  const amenityColumns: Array<{ id: string; group: string; attribute: string }> = []
+  if (fieldsToScrape.includes('amenities')) {
+    const seen = new Set<string>()
+
+    places.forEach((place) => {
+      const groups = (place.amenities as AmenityGroups | null) || {}
+      Object.entries(groups).forEach(([group, attributes]) => {
+        Object.keys(attributes).forEach((attribute) => {
+          const id = `amenity:${group}:${attribute}`
+          if (!seen.has(id)) {
+            seen.add(id)
+            amenityColumns.push({ id, group, attribute })
+          }
+        })
+      })
+    })
+
+    amenityColumns.forEach(({ id, group, attribute }) => {
+      headers.push({ id, title: `${group}: ${attribute}` })
+    })
+  }
 
   // Create CSV writer
   const csvWriter = createObjectCsvWriter({
@@ -81,12 +126,19 @@ export async function generateCSV(options: ExportOptions): Promise<string> {
   })
 
   // Transform data for CSV - only include selected fields
-  const records = places.map((place) => {
+  const records = links.map(({ scrapedPlace: place, ...link }) => {
     const record: any = {
       name: place.name || '',
       address: place.address || '',
       website: place.website || '',
       placeId: place.placeId || '',
+      firstSeenAt: link.firstSeenAt.toISOString(),
+    }
+
+    if (includeSearch) {
+      record.keyword = link.keyword || ''
+      record.location = link.location || ''
+      record.searchRank = link.searchRank?.toString() || ''
     }
 
     // Add optional fields based on job configuration
@@ -111,12 +163,35 @@ export async function generateCSV(options: ExportOptions): Promise<string> {
           ? (place.businessTypes as string[]).join(', ')
           : ''
     }
-    if (fieldsToScrape.includes('socialMedia')) {
+    if (includeSocial) {
+      record.email = place.email || ''
       record.facebook = place.facebook || ''
       record.instagram = place.instagram || ''
       record.twitter = place.twitter || ''
       record.linkedin = place.linkedin || ''
     }
+    if (job.enrichWebsites) {
+      record.tiktok = place.tiktok || ''
+      record.whatsapp = place.whatsapp || ''
+
+      // Where each exported value came from, e.g. "email: https://example.com/contact; phone: maps"
+      const sources = (place.contactSources as ContactSources | null) || {}
+      record.contactSources = Object.entries(sources)
+        .map(([field, list]) => {
+          const value = place[field as keyof ScrapedPlace]
+          const source = list?.find((entry) => entry.value === value)
+          return source ? `${field}: ${source.url || source.source}` : null
+        })
+        .filter(Boolean)
+        .join('; ')
+    }
+    if (amenityColumns.length > 0) {
+      const groups = (place.amenities as AmenityGroups | null) || {}
+      amenityColumns.forEach(({ id, group, attribute }) => {
+        const value = groups[group]?.[attribute]
+        record[id] = value === undefined ? '' : value ? 'true' : 'false'
+      })
+    }
 
     return record
   })
@@ -129,6 +204,77 @@ export async function generateCSV(options: ExportOptions): Promise<string> {
   return filename
 }
 
+export async function generateReviewsCSV(options: ExportOptions): Promise<string> {
+  const { jobId } = options
+
+  const job = await prisma.job.findUnique({ where: { id: jobId } })
+  if (!job) {
+    throw new Error('Job not found')
+  }
+
+  // Get all reviews of the places found by this job
+  const reviews = await prisma.review.findMany({
+    where: { scrapedPlace: { jobs: { some: { jobId } } } },
+    include: {
+      scrapedPlace: {
+        select: { placeId: true, name: true },
+      },
+    },
+    orderBy: [{ scrapedPlaceId: 'asc' }, { scrapedAt: 'asc' }],
+  })
+
+  if (reviews.length === 0) {
+    throw new Error('No reviews to export')
+  }
+
+  // Ensure exports directory exists
+  const exportsDir = path.join(process.cwd(), 'exports')
+  if (!fs.existsSync(exportsDir)) {
+    fs.mkdirSync(exportsDir, { recursive: true })
+  }
+
+  // Generate filename
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const filename = `job_${jobId}_reviews_${timestamp}.csv`
+  const filepath = path.join(exportsDir, filename)
+
+  // Place ID links each review back to the places export
+  const csvWriter = createObjectCsvWriter({
+    path: filepath,
+    header: [
+      { id: 'placeId', title: 'Place ID' },
+      { id: 'placeName', title: 'Place Name' },
+      { id: 'authorName', title: 'Author' },
+      { id: 'rating', title: 'Rating' },
+      { id: 'relativeDate', title: 'Date (Relative)' },
+      { id: 'publishedAt', title: 'Date (Approximate)' },
+      { id: 'text', title: 'Text' },
+      { id: 'language', title: 'Language' },
+      { id: 'ownerResponse', title: 'Owner Response' },
+      { id: 'ownerResponseDate', title: 'Owner Response Date' },
+    ],
+  })
+
+  const records = reviews.map((review) => ({
+    placeId: review.scrapedPlace.placeId,
+    placeName: review.scrapedPlace.name,
+    authorName: review.authorName || '',
+    rating: review.rating?.toString() || '',
+    relativeDate: review.relativeDate || '',
+    publishedAt: review.publishedAt ? review.publishedAt.toISOString().slice(0, 10) : '',
+    text: review.text || '',
+    language: review.language || '',
+    ownerResponse: review.ownerResponse || '',
+    ownerResponseDate: review.ownerResponseDate || '',
+  }))
+
+  await csvWriter.writeRecords(records)
+
+  console.log(`Reviews CSV exported successfully: ${filename}`)
+
+  return filename
+}
+
 export async function getExportPath(filename: string): Promise<string> {
   const exportsDir = path.join(process.cwd(), 'exports')
   const filepath = path.join(exportsDir, filename)
@@ -0,0 +1,297 @@
+import type { FeedSummary, MapViewport } from '@/services/scraper'
+
+/**
+ * Geographic grid search: splits a search area into cells, and saturated cells into quadrants, to get past the ~120 results cap of a search feed
+ */
+
+// [latitude, longitude]
+export type LatLng = [number, number]
+
+export type SearchArea =
+  | { type: 'bbox'; south: number; west: number; north: number; east: number }
+  | { type: 'polygon'; points: LatLng[] }
+  | { type: 'circle'; latitude: number; longitude: number; radiusKm: number }
+
+export interface CellBounds {
+  south: number
+  west: number
+  north: number
+  east: number
+}
+
+export interface GridCell extends CellBounds {
+  depth: number
+}
+
+// A feed with this many results is treated as cut off by the results cap
+export const SATURATED_RESULTS = 100
+
+// Cells are not subdivided below this size
+export const MIN_CELL_SIZE_KM = 0.25
+
+// Most cells the starting grid of a job may have
+export const MAX_GRID_CELLS = 2500
+
+// Deepest subdivision a job may ask for, each level splits a cell into four
+export const MAX_GRID_DEPTH = 6
+
+const KM_PER_DEGREE_LAT = 110.574
+
+function kmPerDegreeLng(latitude: number): number {
+  return 111.32 * Math.cos((latitude * Math.PI) / 180)
+}
+
+function isLatitude(value: unknown): value is number {
+  return typeof value === 'number' && value >= -90 && value <= 90
+}
+
+function isLongitude(value: unknown): value is number {
+  return typeof value === 'number' && value >= -180 && value <= 180
+}
+
+/**
+ * Validate a search area from an API request, returns an error message or null
+ */
+export function validateSearchArea(area: any): string | null {
+  if (!area || typeof area !== 'object') {
+    return 'searchArea must be an object'
+  }
+
+  switch (area.type) {
+    case 'bbox':
+      if (![area.south, area.north].every(isLatitude) || ![area.west, area.east].every(isLongitude)) {
+        return 'bbox needs south/north latitudes and west/east longitudes'
+      }
+      if (area.south >= area.north || area.west >= area.east) {
+        return 'bbox south must be below north and west must be below east'
+      }
+      return null
+    case 'polygon':
+      if (
+        !Array.isArray(area.points) ||
+        area.points.length < 3 ||
+        !area.points.every(
+          (point: any) => Array.isArray(point) && isLatitude(point[0]) && isLongitude(point[1])
+        )
+      ) {
+        return 'polygon needs at least 3 [latitude, longitude] points'
+      }
+      return null
+    case 'circle':
+      if (!isLatitude(area.latitude) || !isLongitude(area.longitude)) {
+        return 'circle needs a latitude and longitude'
+      }
+      if (typeof area.radiusKm !== 'number' || area.radiusKm <= 0) {
+        return 'circle radiusKm must be greater than 0'
+      }
+      return null
+    default:
+      return 'searchArea type must be bbox, polygon or circle'
+  }
+}
+
+/**
+ * Bounding box of a search area
+ */
+export function areaBounds(area: SearchArea): CellBounds {
+  switch (area.type) {
+    case 'bbox':
+      return { south: area.south, west: area.west, north: area.north, east: area.east }
+    case 'polygon': {
+      const lats = area.points.map(([lat]) => lat)
+      const lngs = area.points.map(([, lng]) => lng)
+      return {
+        south: Math.min(...lats),
+        west: Math.min(...lngs),
+        north: Math.max(...lats),
+        east: Math.max(...lngs),
+      }
+    }
+    case 'circle': {
+      const latDelta = area.radiusKm / KM_PER_DEGREE_LAT
+      const lngDelta = area.radiusKm / kmPerDegreeLng(area.latitude)
+      return {
+        south: area.latitude - latDelta,
+        west: area.longitude - lngDelta,
+        north: area.latitude + latDelta,
+        east: area.longitude + lngDelta,
+      }
+    }
+  }
+}
+
+function pointInPolygon([lat, lng]: LatLng, points: LatLng[]): boolean {
+  let inside = false
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const [latI, lngI] = points[i]
+    const [latJ, lngJ] = points[j]
+    if (latI > lat !== latJ > lat && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function segmentsIntersect(a: LatLng, b: LatLng, c: LatLng, d: LatLng): boolean {
+  const cross = (p: LatLng, q: LatLng, r: LatLng) =>
+    (q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0])
+
+  const d1 = cross(c, d, a)
+  const d2 = cross(c, d, b)
+  const d3 = cross(a, b, c)
+  const d4 = cross(a, b, d)
+  return d1 * d2 < 0 && d3 * d4 < 0
+}
+
+/**
+ * Whether a cell overlaps the search area, so cells outside a polygon or circle are never searched
+ */
+export function cellIntersectsArea(cell: CellBounds, area: SearchArea): boolean {
+  const corners: LatLng[] = [
+    [cell.south, cell.west],
+    [cell.south, cell.east],
+    [cell.north, cell.east],
+    [cell.north, cell.west],
+  ]
+
+  switch (area.type) {
+    case 'bbox':
+      return (
+        cell.south < area.north &&
+        cell.north > area.south &&
+        cell.west < area.east &&
+        cell.east > area.west
+      )
+    case 'polygon': {
+      if (corners.some((corner) => pointInPolygon(corner, area.points))) return true
+
+      const inCell = ([lat, lng]: LatLng) =>
+        lat >= cell.south && lat <= cell.north && lng >= cell.west && lng <= cell.east
+      if (area.points.some(inCell)) return true
+
+      return corners.some((a, i) => {
+        const b = corners[(i + 1) % corners.length]
+        return area.points.some((c, j) =>
+          segmentsIntersect(a, b, c, area.points[(j + 1) % area.points.length])
+        )
+      })
+    }
+    case 'circle': {
+      // Distance from the circle center to the nearest point of the cell
+      const lat = Math.min(Math.max(area.latitude, cell.south), cell.north)
+      const lng = Math.min(Math.max(area.longitude, cell.west), cell.east)
+      const dLatKm = (lat - area.latitude) * KM_PER_DEGREE_LAT
+      const dLngKm = (lng - area.longitude) * kmPerDegreeLng(area.latitude)
+      return Math.sqrt(dLatKm * dLatKm + dLngKm * dLngKm) <= area.radiusKm
+    }
+  }
+}
+
+function gridSteps(bounds: CellBounds, cellSizeKm: number) {
+  const centerLat = (bounds.south + bounds.north) / 2
+
+  const latStep = cellSizeKm / KM_PER_DEGREE_LAT
+  const lngStep = cellSizeKm / kmPerDegreeLng(centerLat)
+  // The epsilon keeps floating point error from adding a sliver row or column
+  const rows = Math.max(1, Math.ceil((bounds.north - bounds.south) / latStep - 1e-9))
+  const cols = Math.max(1, Math.ceil((bounds.east - bounds.west) / lngStep - 1e-9))
+
+  return { latStep, lngStep, rows, cols }
+}
+
+/**
+ * Number of cells of the starting grid over the area's bounding box, before cells outside the area are dropped
+ */
+export function gridCellCount(area: SearchArea, cellSizeKm: number): number {
+  const { rows, cols } = gridSteps(areaBounds(area), cellSizeKm)
+  return rows * cols
+}
+
+/**
+ * Cover a search area with cells of roughly cellSizeKm × cellSizeKm
+ */
+export function buildGrid(area: SearchArea, cellSizeKm: number): GridCell[] {
+  const bounds = areaBounds(area)
+  const { latStep, lngStep, rows, cols } = gridSteps(bounds, cellSizeKm)
+
+  const cells: GridCell[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const cell: GridCell = {
+        south: bounds.south + row * latStep,
+        west: bounds.west + col * lngStep,
+        north: Math.min(bounds.south + (row + 1) * latStep, bounds.north),
+        east: Math.min(bounds.west + (col + 1) * lngStep, bounds.east),
+        depth: 0,
+      }
+      if (cellIntersectsArea(cell, area)) {
+        cells.push(cell)
+      }
+    }
+  }
+
+  return cells
+}
+
+/**
+ * Split a cell into its four quadrants that overlap the search area
+ */
+export function subdivideCell(cell: GridCell, area: SearchArea): GridCell[] {
+  const midLat = (cell.south + cell.north) / 2
+  const midLng = (cell.west + cell.east) / 2
+  const depth = cell.depth + 1
+
+  return [
+    { south: cell.south, west: cell.west, north: midLat, east: midLng, depth },
+    { south: cell.south, west: midLng, north: midLat, east: cell.east, depth },
+    { south: midLat, west: cell.west, north: cell.north, east: midLng, depth },
+    { south: midLat, west: midLng, north: cell.north, east: cell.east, depth },
+  ].filter((child) => cellIntersectsArea(child, area))
+}
+
+/**
+ * Size of the longer side of a cell in km
+ */
+export function cellSizeKm(cell: CellBounds): number {
+  const centerLat = (cell.south + cell.north) / 2
+  return Math.max(
+    (cell.north - cell.south) * KM_PER_DEGREE_LAT,
+    (cell.east - cell.west) * kmPerDegreeLng(centerLat)
+  )
+}
+
+/**
+ * Map viewport (center and zoom) that shows the whole cell in a ~1000px wide window
+ */
+export function cellViewport(cell: CellBounds): MapViewport {
+  const latitude = (cell.south + cell.north) / 2
+  const longitude = (cell.west + cell.east) / 2
+
+  // At zoom z a 256px tile spans 360 / 2^z degrees of longitude
+  const spanDegrees = Math.max(
+    cell.east - cell.west,
+    (cell.north - cell.south) / Math.cos((latitude * Math.PI) / 180)
+  )
+  const zoom = Math.floor(Math.log2((360 * 4) / spanDegrees))
+
+  return {
+    latitude: Number(latitude.toFixed(6)),
+    longitude: Number(longitude.toFixed(6)),
+    zoom: Math.min(Math.max(zoom, 3), 21),
+  }
+}
+
+/**
+ * Whether a cell's feed was cut off by the results cap, rather than listing everything in it
+ */
+export function isSaturated(feed: FeedSummary): boolean {
+  return !feed.stoppedEarly && feed.resultsCount >= SATURATED_RESULTS
+}
+
+/**
+ * Short label for logs and failure records, e.g. "cell -6.2000,106.8000 z14"
+ */
+export function cellLabel(cell: CellBounds): string {
+  const { latitude, longitude, zoom } = cellViewport(cell)
+  return `cell ${latitude.toFixed(4)},${longitude.toFixed(4)} z${zoom}`
+}
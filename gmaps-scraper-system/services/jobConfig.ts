@@ -0,0 +1,251 @@
+import type { Job } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { addScrapeJob, ScrapeJobData, JOB_PRIORITIES } from '@/services/queue'
+import {
+  gridCellCount,
+  validateSearchArea,
+  MAX_GRID_CELLS,
+  MAX_GRID_DEPTH,
+  MIN_CELL_SIZE_KM,
+  SearchArea,
+} from '@/services/grid'
+import { placeLinkFromInput } from '@/services/placeParser'
+import { jobTimeWindows, validateTimeWindows } from '@/services/timeWindow'
+
+/**
+ * Settings of a job as posted to /api/jobs, with defaults applied
+ */
+export type JobConfig = Omit<ScrapeJobData, 'jobId'>
+
+/**
+ * Validate a job request body and apply the defaults, shared by new jobs and schedule templates
+ */
+export function parseJobConfig(body: any): { config: JobConfig } | { error: string } {
+  const {
+    clientName,
+    jobType = 'SEARCH', // SEARCH or PLACE_LIST
+    priority = 'NORMAL', // HIGH, NORMAL or LOW
+    placeInputs, // Place URLs or IDs for PLACE_LIST jobs
+    locations,
+    maxResultsPerKeyword = 500,
+    searchArea, // Optional grid search area, replaces locations
+    gridCellSizeKm = 2,
+    gridMaxDepth = 3,
+    minDelay = 2000, // Optimized for speed with 3 concurrent workers
+    maxDelay = 4000, // Optimized for speed with 3 concurrent workers
+    cooldownAfter = 50,
+    cooldownDuration = 60000, // Optimized for better throughput
+    sessionMaxPlaces = 500, // Restart the browser after this many places
+    sessionMaxDuration = 60 * 60 * 1000, // or after an hour
+    fieldsToScrape = ['phone', 'rating', 'city', 'businessInfo', 'coordinates'], // Default fields
+    maxReviewsPerPlace = 20, // Only used when fieldsToScrape includes 'reviews'
+    enrichWebsites = false,
+    scrapeWindows, // Optional weekly windows the job may scrape in
+    windowTimezone = 'UTC',
+  } = body || {}
+  const keywords: string[] = jobType === 'PLACE_LIST' ? [] : body?.keywords
+
+  // Validation
+  if (jobType !== 'SEARCH' && jobType !== 'PLACE_LIST') {
+    return { error: 'Invalid jobType. Use SEARCH or PLACE_LIST.' }
+  }
+
+  if (!JOB_PRIORITIES.includes(priority)) {
+    return { error: 'Invalid priority. Use HIGH, NORMAL or LOW.' }
+  }
+
+  if (jobType === 'PLACE_LIST') {
+    if (!clientName || !Array.isArray(placeInputs) || placeInputs.length === 0) {
+      return { error: 'Invalid request. clientName and placeInputs are required.' }
+    }
+
+    const invalidInputs = placeInputs.filter(
+      (input: unknown) => typeof input !== 'string' || !placeLinkFromInput(input)
+    )
+    if (invalidInputs.length > 0) {
+      return {
+        error: `${invalidInputs.length} entries are not Google Maps place URLs or IDs: ${invalidInputs.slice(0, 5).join(', ')}`,
+      }
+    }
+  } else if (!clientName || !keywords || !Array.isArray(keywords) || keywords.length === 0) {
+    return { error: 'Invalid request. clientName and keywords are required.' }
+  }
+
+  if (minDelay < 0 || maxDelay < minDelay || cooldownAfter < 1 || cooldownDuration < 0) {
+    return { error: 'Invalid delay settings. maxDelay must be >= minDelay and cooldownAfter >= 1.' }
+  }
+
+  if (sessionMaxPlaces < 1 || sessionMaxDuration < 60000) {
+    return { error: 'Invalid session settings. sessionMaxPlaces must be >= 1 and sessionMaxDuration >= 60000.' }
+  }
+
+  if (searchArea) {
+    const areaError = validateSearchArea(searchArea)
+    if (areaError) {
+      return { error: `Invalid searchArea: ${areaError}` }
+    }
+
+    if (
+      !(gridCellSizeKm >= MIN_CELL_SIZE_KM) ||
+      !Number.isInteger(gridMaxDepth) ||
+      gridMaxDepth < 0 ||
+      gridMaxDepth > MAX_GRID_DEPTH
+    ) {
+      return {
+        error: `Invalid grid settings. gridCellSizeKm must be >= ${MIN_CELL_SIZE_KM} and gridMaxDepth a whole number from 0 to ${MAX_GRID_DEPTH}.`,
+      }
+    }
+
+    // The worker stores every cell of the starting grid, so its size is capped
+    const cellCount = gridCellCount(searchArea, gridCellSizeKm)
+    if (!(cellCount <= MAX_GRID_CELLS)) {
+      return {
+        error: `searchArea needs ${Number.isFinite(cellCount) ? cellCount : 'too many'} cells of ${gridCellSizeKm} km, the limit is ${MAX_GRID_CELLS}. Use a smaller area or larger cells.`,
+      }
+    }
+  }
+
+  if (scrapeWindows) {
+    const windowError = validateTimeWindows(scrapeWindows, windowTimezone)
+    if (windowError) {
+      return { error: `Invalid scrapeWindows: ${windowError}` }
+    }
+  }
+
+  return {
+    config: {
+      clientName,
+      jobType,
+      priority,
+      keywords,
+      placeInputs: jobType === 'PLACE_LIST' ? placeInputs : undefined,
+      locations: locations || [],
+      maxResultsPerKeyword,
+      searchArea: searchArea || undefined,
+      gridCellSizeKm,
+      gridMaxDepth,
+      minDelay,
+      maxDelay,
+      cooldownAfter,
+      cooldownDuration,
+      sessionMaxPlaces,
+      sessionMaxDuration,
+      fieldsToScrape,
+      maxReviewsPerPlace,
+      enrichWebsites,
+      scrapeWindows: scrapeWindows || undefined,
+      windowTimezone,
+    },
+  }
+}
+
+/**
+ * Queue data of a stored job, used to queue it again on resume or when it went missing from the queue
+ */
+export function scrapeJobData(job: Job): ScrapeJobData {
+  return {
+    jobId: job.id,
+    clientName: job.clientName,
+    priority: job.priority,
+    jobType: job.jobType,
+    keywords: job.keywords as string[],
+    placeInputs: (job.placeInputs as string[] | null) || undefined,
+    locations: job.locations as string[] | undefined,
+    maxResultsPerKeyword: job.maxResultsPerKeyword,
+    searchArea: (job.searchArea as SearchArea | null) || undefined,
+    gridCellSizeKm: job.gridCellSizeKm,
+    gridMaxDepth: job.gridMaxDepth,
+    minDelay: job.minDelay,
+    maxDelay: job.maxDelay,
+    cooldownAfter: job.cooldownAfter,
+    cooldownDuration: job.cooldownDuration,
+    sessionMaxPlaces: job.sessionMaxPlaces,
+    sessionMaxDuration: job.sessionMaxDuration,
+    fieldsToScrape: (job.fieldsToScrape as string[] | null) || undefined,
+    maxReviewsPerPlace: job.maxReviewsPerPlace,
+    enrichWebsites: job.enrichWebsites,
+    scrapeWindows: jobTimeWindows(job) || undefined,
+    windowTimezone: job.windowTimezone,
+  }
+}
+
+/**
+ * Create a job in the database and add it to the scrape queue
+ */
+export async function createJob(config: JobConfig, options: { scheduleId?: string } = {}) {
+  const {
+    clientName,
+    jobType = 'SEARCH',
+    keywords,
+    placeInputs,
+    maxResultsPerKeyword,
+    minDelay,
+    maxDelay,
+    cooldownAfter,
+    cooldownDuration,
+  } = config
+
+  // Estimate duration (rough calculation)
+  const avgDelay = (minDelay + maxDelay) / 2 / 1000 // seconds
+  const expectedPlaces =
+    jobType === 'PLACE_LIST' ? placeInputs?.length || 0 : keywords.length * maxResultsPerKeyword
+  const cooldownsNeeded = Math.floor(expectedPlaces / cooldownAfter)
+  const totalCooldownTime = (cooldownsNeeded * cooldownDuration) / 1000 // seconds
+  const scrapingTime = expectedPlaces * avgDelay
+  const estimatedDuration = Math.round(scrapingTime + totalCooldownTime) // seconds
+
+  // Create job in database
+  const job = await prisma.job.create({
+    data: {
+      clientName,
+      jobType,
+      priority: config.priority,
+      keywords,
+      placeInputs,
+      locations: config.locations || [],
+      maxResultsPerKeyword,
+      searchArea: config.searchArea as any,
+      gridCellSizeKm: config.gridCellSizeKm,
+      gridMaxDepth: config.gridMaxDepth,
+      minDelay,
+      maxDelay,
+      cooldownAfter,
+      cooldownDuration,
+      sessionMaxPlaces: config.sessionMaxPlaces,
+      sessionMaxDuration: config.sessionMaxDuration,
+      fieldsToScrape: config.fieldsToScrape,
+      maxReviewsPerPlace: config.maxReviewsPerPlace,
+      enrichWebsites: config.enrichWebsites,
+      scrapeWindows: config.scrapeWindows as any,
+      windowTimezone: config.windowTimezone,
+      estimatedDuration,
+      scheduleId: options.scheduleId,
+      status: 'PENDING',
+    },
+  })
+
+  // Log job creation
+  await prisma.systemLog.create({
+    data: {
+      jobId: job.id,
+      level: 'INFO',
+      event: 'JOB_CREATED',
+      message: options.scheduleId
+        ? `Scheduled job created for client: ${clientName}`
+        : `Job created for client: ${clientName}`,
+      metadata: {
+        jobType,
+        priority: config.priority,
+        keywords: keywords.length,
+        places: jobType === 'PLACE_LIST' ? placeInputs?.length : undefined,
+        maxResults: maxResultsPerKeyword,
+        scheduleId: options.scheduleId,
+      },
+    },
+  })
+
+  // Add job to queue
+  await addScrapeJob({ jobId: job.id, ...config })
+
+  return job
+}
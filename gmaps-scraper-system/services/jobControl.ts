@@ -0,0 +1,36 @@
+import { redis } from '@/lib/redis'
+
+/**
+ * Pause and cancel signals for jobs, sent to the workers over Redis pub/sub
+ */
+
+const JOB_CONTROL_CHANNEL = 'gmaps:job-control'
+
+export type JobSignal = 'pause' | 'cancel'
+
+/**
+ * Tell every worker running tasks of this job to stop them
+ */
+export async function sendJobSignal(jobId: string, signal: JobSignal): Promise<void> {
+  await redis.publish(JOB_CONTROL_CHANNEL, JSON.stringify({ jobId, signal }))
+}
+
+/**
+ * Listen for job signals, on a connection of its own since a subscribed connection can not send commands
+ */
+export function onJobSignal(handler: (jobId: string, signal: JobSignal) => void): void {
+  const subscriber = redis.duplicate()
+
+  subscriber.subscribe(JOB_CONTROL_CHANNEL).catch((error) => {
+    console.error('Error subscribing to job signals:', error)
+  })
+
+  subscriber.on('message', (_channel, message) => {
+    try {
+      const { jobId, signal } = JSON.parse(message)
+      handler(jobId, signal)
+    } catch (error) {
+      console.error('Invalid job signal:', message, error)
+    }
+  })
+}
@@ -0,0 +1,188 @@
+import type Redis from 'ioredis'
+import { redis } from '@/lib/redis'
+
+/**
+ * Job events, logged to Redis Streams and published over pub/sub to the SSE connections
+ */
+
+const JOB_EVENTS_CHANNEL = 'gmaps:job-events'
+const ALL_EVENTS_STREAM = 'gmaps:job-event-log'
+const jobEventsStream = (jobId: string) => `gmaps:job-event-log:${jobId}`
+
+// Approximate number of events kept in the stream of all jobs, and per job
+const ALL_EVENTS_MAX_LENGTH = 10000
+const JOB_EVENTS_MAX_LENGTH = 2000
+
+// The events of a job are kept for a week after its last one (seconds)
+const JOB_EVENTS_RETENTION = 7 * 24 * 60 * 60
+
+/*
+ * Append to both streams and publish in one step, so the job stream gets the same ID as the
+ * stream of all jobs and subscribers receive events in ID order, whichever worker sends them.
+ * The published message is the stored entry with its ID added in front.
+ */
+const PUBLISH_SCRIPT = `
+local id = redis.call('XADD', KEYS[1], 'MAXLEN', '~', ARGV[2], '*', 'event', ARGV[1])
+redis.call('XADD', KEYS[2], 'MAXLEN', '~', ARGV[3], id, 'event', ARGV[1])
+redis.call('EXPIRE', KEYS[2], ARGV[4])
+redis.call('PUBLISH', ARGV[5], '{"id":"' .. id .. '",' .. string.sub(ARGV[1], 2))
+return id
+`
+
+export interface JobEventPayloads {
+  'job:keyword-started': {
+    jobId: string
+    taskId: string
+    // Both empty for a place list task
+    keyword: string | null
+    location: string | null
+  }
+  'job:place-saved': {
+    jobId: string
+    scrapedCount: number
+    currentKeyword: string | null
+    placeId: string
+    placeName: string
+  }
+  'job:captcha': {
+    jobId: string
+    task: string
+  }
+  'job:cooldown-started': {
+    jobId: string
+    durationMs: number
+  }
+  'job:cooldown-ended': {
+    jobId: string
+  }
+  'job:browser-restarted': {
+    jobId: string
+    placesInSession: number
+  }
+  'job:completed': {
+    jobId: string
+  }
+  'job:failed': {
+    jobId: string
+    error: string
+  }
+}
+
+export type JobEventName = keyof JobEventPayloads
+
+export type JobEvent = {
+  [E in JobEventName]: { id: string; event: E; data: JobEventPayloads[E] }
+}[JobEventName]
+
+type JobEventListener = (event: JobEvent) => void
+
+// One subscriber connection per process, kept across hot reloads in development like the Prisma client
+const globalForJobEvents = globalThis as unknown as {
+  jobEventSubscriber: { connection: Redis; listeners: Set<JobEventListener> } | undefined
+}
+
+/**
+ * Store an event and publish it to every subscribed process. Events only drive live updates
+ * and the dashboard polls the database as well, so a failed publish is logged instead of thrown
+ */
+export async function publishJobEvent<E extends JobEventName>(
+  event: E,
+  data: JobEventPayloads[E]
+): Promise<void> {
+  try {
+    await redis.eval(
+      PUBLISH_SCRIPT,
+      2,
+      ALL_EVENTS_STREAM,
+      jobEventsStream(data.jobId),
+      JSON.stringify({ event, data }),
+      ALL_EVENTS_MAX_LENGTH,
+      JOB_EVENTS_MAX_LENGTH,
+      JOB_EVENTS_RETENTION,
+      JOB_EVENTS_CHANNEL
+    )
+  } catch (error) {
+    console.error(`Error publishing ${event} event:`, error)
+  }
+}
+
+/**
+ * Listen for job events from all processes, returns a function that stops listening
+ */
+export function subscribeJobEvents(listener: JobEventListener): () => void {
+  if (!globalForJobEvents.jobEventSubscriber) {
+    // A subscribed connection can not send commands, so it is a connection of its own
+    const connection = redis.duplicate()
+    const listeners = new Set<JobEventListener>()
+
+    connection.subscribe(JOB_EVENTS_CHANNEL).catch((error) => {
+      console.error('Error subscribing to job events:', error)
+    })
+
+    connection.on('message', (_channel, message) => {
+      let event: JobEvent
+      try {
+        event = JSON.parse(message)
+      } catch (error) {
+        console.error('Invalid job event:', message, error)
+        return
+      }
+
+      listeners.forEach((callback) => {
+        try {
+          callback(event)
+        } catch (error) {
+          console.error('Error in job event listener:', error)
+        }
+      })
+    })
+
+    globalForJobEvents.jobEventSubscriber = { connection, listeners }
+  }
+
+  const { listeners } = globalForJobEvents.jobEventSubscriber
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+/**
+ * Order of two event IDs ("<ms>-<sequence>"), negative when a is older
+ */
+export function compareEventIds(a: string, b: string): number {
+  const [aTime, aSequence] = a.split('-').map(Number)
+  const [bTime, bSequence] = b.split('-').map(Number)
+  return aTime !== bTime ? aTime - bTime : (aSequence || 0) - (bSequence || 0)
+}
+
+/**
+ * Stored events of one job, or of all jobs: the ones after an event ID, or the latest ones
+ */
+export async function readJobEvents(options: {
+  jobId?: string | null
+  after?: string | null
+  limit: number
+}): Promise<JobEvent[]> {
+  const stream = options.jobId ? jobEventsStream(options.jobId) : ALL_EVENTS_STREAM
+
+  let entries: Array<[string, string[]]>
+  if (options.after) {
+    // The range start is inclusive, skip the event the client already has
+    const [time, sequence] = options.after.split('-').map(Number)
+    entries = await redis.xrange(stream, `${time}-${(sequence || 0) + 1}`, '+', 'COUNT', options.limit)
+  } else {
+    entries = (await redis.xrevrange(stream, '+', '-', 'COUNT', options.limit)).reverse()
+  }
+
+  const events: JobEvent[] = []
+  for (const [id, fields] of entries) {
+    try {
+      events.push({ id, ...JSON.parse(fields[fields.indexOf('event') + 1]) })
+    } catch (error) {
+      console.error(`Invalid stored job event ${id}:`, error)
+    }
+  }
+  return events
+}
+
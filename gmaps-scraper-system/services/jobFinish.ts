@@ -0,0 +1,116 @@
+import type { JobStatus } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { publishJobEvent } from '@/services/jobEvents'
+import { notifyJobCompleted, notifyJobFailed } from '@/services/discord'
+
+// Mark a job as failed and notify
+export async function failJob(jobId: string, message: string): Promise<void> {
+  const dbJob = await prisma.job.update({
+    where: { id: jobId },
+    data: {
+      status: 'FAILED',
+      errorMessage: message,
+    },
+  })
+
+  await prisma.systemLog.create({
+    data: {
+      jobId,
+      level: 'ERROR',
+      event: 'JOB_FAILED',
+      message,
+    },
+  })
+
+  await notifyJobFailed({
+    id: jobId,
+    clientName: dbJob.clientName,
+    error: message,
+    scrapedCount: dbJob.scrapedCount,
+  })
+
+  await publishJobEvent('job:failed', { jobId, error: message })
+}
+
+/**
+ * Complete, fail or pause the job once none of its tasks is pending or running.
+ * A job fails only when every task failed, failed searches are listed in FailedScrape.
+ * A failed job is checked again from FAILED after a retry completed one of its tasks
+ */
+export async function finishJobIfDone(jobId: string, fromStatus: JobStatus = 'RUNNING'): Promise<void> {
+  const groups = await prisma.jobTask.groupBy({
+    by: ['status'],
+    where: { jobId },
+    _count: true,
+  })
+  const counts: Record<string, number> = Object.fromEntries(
+    groups.map((group) => [group.status, group._count])
+  )
+
+  if (counts.PENDING || counts.RUNNING) return
+
+  // A task stopped for a pause that raced with a resume, pause again so it can be resumed
+  if (counts.PAUSED) {
+    await prisma.job.updateMany({
+      where: { id: jobId, status: 'RUNNING' },
+      data: { status: 'PAUSED', pauseReason: 'Tasks were paused' },
+    })
+    return
+  }
+
+  const totalTasks = groups.reduce((sum, group) => sum + group._count, 0)
+  const failedTasks = counts.FAILED || 0
+
+  if (totalTasks > 0 && failedTasks === totalTasks) {
+    // Only the first task to get here fails the job
+    const { count } = await prisma.job.updateMany({
+      where: { id: jobId, status: 'RUNNING' },
+      data: { status: 'FAILED' },
+    })
+    if (count > 0) {
+      await failJob(jobId, `All ${totalTasks} tasks failed`)
+      console.log(`❌ Job ${jobId} failed: all ${totalTasks} tasks failed`)
+    }
+    return
+  }
+
+  const completedAt = new Date()
+  const { count } = await prisma.job.updateMany({
+    where: { id: jobId, status: fromStatus },
+    data: {
+      status: 'COMPLETED',
+      completedAt,
+      errorMessage: null,
+    },
+  })
+  if (count === 0) return
+
+  const dbJob = await prisma.job.findUnique({ where: { id: jobId } })
+  if (!dbJob) return
+
+  const startedAt = dbJob.startedAt || completedAt
+  const duration = Math.floor((completedAt.getTime() - startedAt.getTime()) / 1000)
+
+  await prisma.systemLog.create({
+    data: {
+      jobId,
+      level: failedTasks > 0 ? 'WARNING' : 'INFO',
+      event: 'JOB_COMPLETED',
+      message:
+        `Job completed. Scraped ${dbJob.scrapedCount} places, ${dbJob.failedCount} failed` +
+        (failedTasks > 0 ? `, ${failedTasks} of ${totalTasks} tasks failed` : ''),
+    },
+  })
+
+  await notifyJobCompleted({
+    id: jobId,
+    clientName: dbJob.clientName,
+    scrapedCount: dbJob.scrapedCount,
+    failedCount: dbJob.failedCount,
+    duration,
+  })
+
+  await publishJobEvent('job:completed', { jobId })
+
+  console.log(`🎉 Job ${jobId} completed successfully`)
+}
@@ -0,0 +1,378 @@
+import type {
+  AmenityGroups,
+  ScrapedPlaceData,
+  ScrapedReviewData,
+} from '@/services/scraper'
+
+/**
+ * Google Maps place page parsers, each function taking a Document must be self-contained so it can be serialized with buildPageScript()
+ */
+
+/**
+ * Extract the Google place ID from a place URL (feed link or detail page)
+ */
+export function parsePlaceId(url: string): string | null {
+  const match = url.match(/!1s([^!]+)/)
+  return match ? match[1] : null
+}
+
+/**
+ * Extract the place name from a place URL, e.g. "Kopi Kenangan" from /maps/place/Kopi+Kenangan/...
+ */
+export function parsePlaceName(url: string): string | null {
+  const match = url.match(/\/maps\/place\/([^/@?]+)/)
+  // Links built from a place ID have no name segment
+  if (!match || match[1].startsWith('data=')) return null
+
+  try {
+    return decodeURIComponent(match[1].replace(/\+/g, ' '))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Turn a place URL or place ID from a client list into the link the scraper visits,
+ * returns null when the input is neither. Google Maps URLs become paths so they are
+ * served from the configured base URL, short links are kept as they are
+ */
+export function placeLinkFromInput(input: string): string | null {
+  const value = input.trim()
+
+  if (/^https?:\/\//i.test(value)) {
+    let url: URL
+    try {
+      url = new URL(value)
+    } catch {
+      return null
+    }
+
+    if (url.hostname === 'goo.gl' || url.hostname === 'maps.app.goo.gl') {
+      return value
+    }
+    if (/(^|\.)google\.[a-z.]+$/i.test(url.hostname) && url.pathname.startsWith('/maps/place')) {
+      return `${url.pathname}${url.search}`
+    }
+    return null
+  }
+
+  if (value.startsWith('/maps/place')) {
+    return value
+  }
+
+  // Feature ID as found in place URLs after !1s
+  if (/^0x[0-9a-f]+:0x[0-9a-f]+$/i.test(value)) {
+    return `/maps/place/data=!4m2!3m1!1s${value}`
+  }
+
+  // Places API ID (ChIJ...)
+  if (/^[A-Za-z0-9_-]{20,}$/.test(value)) {
+    return `/maps/place/?q=place_id:${value}`
+  }
+
+  return null
+}
+
+/**
+ * Parse a place detail page into ScrapedPlaceData, returns null when the page
+ * has no place ID or name. Only the requested field groups are extracted
+ */
+export function parsePlaceDocument(
+  doc: Document,
+  url: string,
+  fields: string[]
+): ScrapedPlaceData | null {
+  const getText = (selector: string): string | undefined => {
+    const el = doc.querySelector(selector)
+    return el?.textContent?.trim() || undefined
+  }
+
+  // Buttons in the info list carry a data-item-id and an aria-label like "Phone: +62 ..."
+  const getItemLabel = (itemId: string, prefix: string): string | undefined => {
+    const button = Array.from(doc.querySelectorAll('button[data-item-id]')).find((btn) =>
+      (btn.getAttribute('data-item-id') || '').includes(itemId)
+    )
+    const label = button?.getAttribute('aria-label')
+    return label ? label.replace(prefix, '').trim() : undefined
+  }
+
+  // Place ID
+  const placeIdMatch = url.match(/!1s([^!]+)/)
+  const placeId = placeIdMatch ? placeIdMatch[1] : undefined
+
+  // Name
+  const name = getText('h1')
+
+  if (!placeId || !name) return null
+
+  const place: ScrapedPlaceData = { placeId, name }
+
+  // Address
+  place.address = getItemLabel('address', 'Address: ')
+
+  // Website
+  const websiteLink = Array.from(doc.querySelectorAll('a[data-item-id]')).find((link) =>
+    (link.getAttribute('data-item-id') || '').includes('authority')
+  )
+  place.website = websiteLink?.getAttribute('href') || undefined
+
+  // City - extracted from address, the part before the region and postal code and never the street
+  const parseCity = (address: string): string | undefined => {
+    const parts = address.split(',').map((p) => p.trim()).filter(Boolean)
+    // The first part is the street
+    if (parts.length < 2) return undefined
+
+    // A trailing part without digits is the country, e.g. "Indonesia"
+    if (parts.length >= 3 && !/\d/.test(parts[parts.length - 1])) {
+      parts.pop()
+    }
+
+    for (let i = parts.length - 1; i >= 1; i--) {
+      // "10117 Berlin": the postal code comes before the city
+      const postalFirst = parts[i].match(/^\d[\d-]{3,}\s+(.+)$/)
+      if (postalFirst) return postalFirst[1]
+
+      // "Bali 80361" or "CA 94043": a region before the postal code, the city is the part before it
+      if (/\s\d[\d-]{3,}$/.test(parts[i])) {
+        return i >= 2 ? parts[i - 1] : undefined
+      }
+    }
+    return parts[parts.length - 1]
+  }
+  if (fields.includes('city') && place.address) {
+    place.city = parseCity(place.address)
+  }
+
+  // Rating and reviews
+  if (fields.includes('rating')) {
+    const ratingEl = doc.querySelector('[role="img"][aria-label*="star"]')
+    if (ratingEl) {
+      const ratingMatch = (ratingEl.getAttribute('aria-label') || '').match(/[\d.]+/)
+      place.rating = ratingMatch ? parseFloat(ratingMatch[0]) : undefined
+    }
+
+    const reviewsButton = Array.from(doc.querySelectorAll('button')).find((btn) =>
+      (btn.getAttribute('aria-label') || '').includes('review')
+    )
+    if (reviewsButton) {
+      const reviewsMatch = (reviewsButton.getAttribute('aria-label') || '').match(/[\d,]+/)
+      place.reviewsCount = reviewsMatch
+        ? parseInt(reviewsMatch[0].replace(/,/g, ''))
+        : undefined
+    }
+  }
+
+  // Phone
+  if (fields.includes('phone')) {
+    place.phone = getItemLabel('phone', 'Phone: ')
+  }
+
+  // Business status, types and about
+  if (fields.includes('businessInfo')) {
+    place.businessStatus = getText('[class*="operational"]')
+
+    const businessType = getText('button[jsaction*="category"]')
+    place.businessTypes = businessType ? [businessType] : undefined
+
+    place.about = getText('[aria-label*="About"]')
+  }
+
+  // Plus code and coordinates
+  if (fields.includes('coordinates')) {
+    place.plusCode = getItemLabel('plus_code', 'Plus code: ')
+
+    const coordinatesMatch = url.match(/@(-?\d+\.\d+),(-?\d+\.\d+)/)
+    if (coordinatesMatch) {
+      place.latitude = parseFloat(coordinatesMatch[1])
+      place.longitude = parseFloat(coordinatesMatch[2])
+    }
+  }
+
+  // Social media links anywhere on the page
+  if (fields.includes('socialMedia')) {
+    Array.from(doc.querySelectorAll('a[href]')).forEach((link) => {
+      const href = link.getAttribute('href') || ''
+
+      if (href.includes('facebook.com')) {
+        place.facebook = href
+      } else if (href.includes('instagram.com')) {
+        place.instagram = href
+      } else if (href.includes('twitter.com') || href.includes('x.com')) {
+        place.twitter = href
+      } else if (href.includes('linkedin.com')) {
+        place.linkedin = href
+      } else if (href.startsWith('mailto:')) {
+        place.email = href.replace('mailto:', '')
+      }
+    })
+  }
+
+  // Drop fields that were not found so results compare cleanly
+  Object.keys(place).forEach((key) => {
+    if ((place as any)[key] === undefined) delete (place as any)[key]
+  })
+
+  return place
+}
+
+/**
+ * Parse the opening hours table shown after clicking the hours button
+ */
+export function parseOpeningHours(doc: Document): Record<string, string> | null {
+  const table = doc.querySelector('table[aria-label*="hours"]')
+  if (!table) return null
+
+  const schedule: Record<string, string> = {}
+
+  Array.from(table.querySelectorAll('tr')).forEach((row) => {
+    const cells = Array.from(row.querySelectorAll('td'))
+    if (cells.length >= 2) {
+      const day = cells[0].textContent?.trim()
+      const hours = cells[1].textContent?.trim()
+      if (day && hours) {
+        schedule[day] = hours
+      }
+    }
+  })
+
+  return schedule
+}
+
+/**
+ * Parse the About tab into attribute groups (Accessibility, Service options, Payments, ...).
+ * Each attribute's aria-label says whether the place has it ("Has ...", "Serves ...")
+ * or not ("No ...", "Doesn't ..."), returns null when the tab has no groups
+ */
+export function parseAboutAttributes(doc: Document): AmenityGroups | null {
+  const region = doc.querySelector('[role="region"][aria-label*="About"]') || doc.body
+  const groups: AmenityGroups = {}
+
+  Array.from(region.querySelectorAll('h2')).forEach((heading) => {
+    const groupName = heading.textContent?.trim()
+    const container = heading.parentElement
+    if (!groupName || !container) return
+
+    const attributes: Record<string, boolean> = {}
+
+    Array.from(container.querySelectorAll('li')).forEach((item) => {
+      const labelled = item.querySelector('[aria-label]')
+      const label = (labelled?.getAttribute('aria-label') || '').trim()
+      const name = item.textContent?.trim()
+      if (!name) return
+
+      attributes[name] = !/^(no|doesn't|does not|not)\b/i.test(label)
+    })
+
+    if (Object.keys(attributes).length > 0) {
+      groups[groupName] = attributes
+    }
+  })
+
+  return Object.keys(groups).length > 0 ? groups : null
+}
+
+/**
+ * Parse the reviews currently loaded in the reviews tab, up to limit
+ */
+export function parseReviews(doc: Document, limit: number): ScrapedReviewData[] {
+  const getText = (root: Element, selector: string): string | undefined => {
+    const el = root.querySelector(selector)
+    return el?.textContent?.trim() || undefined
+  }
+
+  const reviews: ScrapedReviewData[] = []
+  const seen = new Set<string>()
+
+  // Each review is a container with data-review-id; nested buttons repeat the ID
+  Array.from(doc.querySelectorAll('div[data-review-id]')).forEach((el) => {
+    const reviewId = el.getAttribute('data-review-id') || undefined
+    if (reviews.length >= limit || !reviewId || seen.has(reviewId)) return
+    seen.add(reviewId)
+
+    const review: ScrapedReviewData = { reviewId }
+
+    review.authorName = getText(el, '.d4r55') || el.getAttribute('aria-label') || undefined
+
+    const ratingMatch = (
+      el.querySelector('[role="img"][aria-label*="star"]')?.getAttribute('aria-label') || ''
+    ).match(/[\d.]+/)
+    review.rating = ratingMatch ? parseFloat(ratingMatch[0]) : undefined
+
+    review.relativeDate = getText(el, '.rsqaWe')
+
+    const textEl = el.querySelector('.MyEned .wiI7pd') || el.querySelector('.wiI7pd')
+    review.text = textEl?.textContent?.trim() || undefined
+    review.language =
+      textEl?.closest('[lang]')?.getAttribute('lang') ||
+      textEl?.getAttribute('lang') ||
+      undefined
+
+    // Owner response block
+    const responseEl = el.querySelector('.CDe7pd')
+    if (responseEl) {
+      review.ownerResponse = getText(responseEl, '.wiI7pd')
+      review.ownerResponseDate = getText(responseEl, '.DZSIDd')
+    }
+
+    Object.keys(review).forEach((key) => {
+      if ((review as any)[key] === undefined) delete (review as any)[key]
+    })
+
+    reviews.push(review)
+  })
+
+  return reviews
+}
+
+/**
+ * Approximate the date behind a relative label like "2 months ago" or "a week ago"
+ */
+export function parseRelativeDate(relativeDate: string, now = new Date()): Date | null {
+  const match = relativeDate
+    .toLowerCase()
+    .match(/(a|an|\d+)\s+(minute|hour|day|week|month|year)s?\s+ago/)
+  if (!match) return null
+
+  const amount = match[1] === 'a' || match[1] === 'an' ? 1 : parseInt(match[1])
+  const date = new Date(now)
+
+  switch (match[2]) {
+    case 'minute':
+      date.setMinutes(date.getMinutes() - amount)
+      break
+    case 'hour':
+      date.setHours(date.getHours() - amount)
+      break
+    case 'day':
+      date.setDate(date.getDate() - amount)
+      break
+    case 'week':
+      date.setDate(date.getDate() - amount * 7)
+      break
+    case 'month':
+      date.setMonth(date.getMonth() - amount)
+      break
+    case 'year':
+      date.setFullYear(date.getFullYear() - amount)
+      break
+  }
+
+  return date
+}
+
+/**
+ * Serialize a self-contained parser into a script that runs it against the page's
+ * document. Arguments are passed as JSON. The __name shim covers helpers that
+ * tsx/esbuild inject when keeping function names
+ */
+export function buildPageScript(
+  parser: (doc: Document, ...args: any[]) => unknown,
+  args: unknown[] = []
+): string {
+  const serializedArgs = args.map((arg) => JSON.stringify(arg)).join(', ')
+
+  return `(() => {
+    const __name = (target) => target
+    return (${parser.toString()})(document${serializedArgs ? `, ${serializedArgs}` : ''})
+  })()`
+}
@@ -0,0 +1,483 @@
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/prisma'
+import { addEnrichJob } from '@/services/queue'
+import { publishJobEvent } from '@/services/jobEvents'
+import { contactSourcesFromPlace, mergeContactSources } from '@/services/enrichment'
+import type { ContactSources } from '@/services/enrichment'
+import { notifyMilestone } from '@/services/discord'
+import { SCRAPE_FIELDS } from '@/services/scraper'
+import type { KnownPlace, ScrapedPlaceData, SharedPlace } from '@/services/scraper'
+
+/**
+ * The job fields needed to store its places
+ */
+export interface PlaceStoreJob {
+  id: string
+  clientName: string
+  jobType: string
+  keywords: unknown
+  placeInputs: unknown
+  maxResultsPerKeyword: number
+  fieldsToScrape: unknown
+  enrichWebsites: boolean
+}
+
+export interface SavePlaceOptions {
+  // Keyword the place was found with, stored on the job's link and reported in progress events
+  keyword?: string | null
+  // Location or grid cell of the search the place was found in
+  location?: string | null
+  // Overwrite a stored place with the new data
+  refresh?: boolean
+}
+
+/**
+ * A buffered place: scraped data to store, or only a link to a place another job stored
+ */
+interface BufferedPlace {
+  placeId: string
+  place: ScrapedPlaceData | null
+  keyword: string | null
+  location: string | null
+  searchRank: number | null
+  refresh: boolean
+}
+
+export interface PlaceBufferOptions {
+  // Task whose scraped count and checkpoint are written with the places
+  taskId?: string
+  // Prefix for log lines, e.g. the worker ID
+  logPrefix?: string
+}
+
+// Places buffered before they are written in one batch
+const PLACE_BATCH_SIZE = parseInt(process.env.PLACE_BATCH_SIZE || '20')
+
+// Buffered places are written after this long, even when the batch is not full (ms)
+const PLACE_BATCH_MAX_WAIT = 10000
+
+// Milestone notification every this many places
+const MILESTONE_EVERY = 500
+
+/**
+ * Field groups a job scrapes, jobs created before field selection existed extract everything
+ */
+function jobScrapeFields(job: PlaceStoreJob): string[] {
+  const fields = job.fieldsToScrape
+  return Array.isArray(fields) ? SCRAPE_FIELDS.filter((field) => fields.includes(field)) : [...SCRAPE_FIELDS]
+}
+
+/**
+ * Places already linked to this job count towards the limit, places stored by other jobs are
+ * linked to this one without visiting them again, unless they lack field groups this job scrapes
+ */
+export async function lookupKnownPlace(job: PlaceStoreJob, placeId: string): Promise<KnownPlace | null> {
+  const existing = await prisma.scrapedPlace.findUnique({
+    where: { placeId },
+    select: { scrapedFields: true, jobs: { where: { jobId: job.id }, select: { id: true } } },
+  })
+  if (!existing) return null
+  if (existing.jobs.length > 0) return 'counted'
+
+  const storedFields = Array.isArray(existing.scrapedFields) ? existing.scrapedFields : []
+  return jobScrapeFields(job).every((field) => storedFields.includes(field)) ? 'shared' : null
+}
+
+/**
+ * Buffer of a task's scraped places, written in batches: new places with one insert that skips
+ * places stored meanwhile, refreshed places with an upsert each, then one insert of the job's
+ * links to all of them, and the job and task counters incremented once per batch by the links
+ * that are new. The task's checkpoint is written in the same transaction, so it never gets ahead
+ * of the places it covers. Flush before the task stops, whatever the reason.
+ */
+export class PlaceBuffer {
+  private pending: BufferedPlace[] = []
+  private checkpoint: { lastPlaceLink: string } | null = null
+  private flushTimer: ReturnType<typeof setTimeout> | null = null
+  private writing: Promise<unknown> = Promise.resolve()
+  private timedFlushError: unknown = null
+
+  constructor(
+    private job: PlaceStoreJob,
+    private options: PlaceBufferOptions = {}
+  ) {}
+
+  /**
+   * Whether a place is waiting to be written, lookups of stored places do not see it yet
+   */
+  has(placeId: string): boolean {
+    return this.pending.some((entry) => entry.placeId === placeId)
+  }
+
+  /**
+   * Buffer a place, writing the batch once it is full or has waited long enough. Returns false
+   * for a place that is already buffered, a place stored by another task meanwhile is linked
+   * to the job as it is when the batch is written
+   */
+  async add(place: ScrapedPlaceData, options: SavePlaceOptions = {}): Promise<boolean> {
+    return this.push({
+      placeId: place.placeId,
+      place,
+      keyword: options.keyword ?? null,
+      location: options.location ?? null,
+      searchRank: place.searchRank ?? null,
+      refresh: options.refresh ?? false,
+    })
+  }
+
+  /**
+   * Buffer a link to a place another job stored, returns false for a place that is already buffered
+   */
+  async addShared(shared: SharedPlace, options: SavePlaceOptions = {}): Promise<boolean> {
+    return this.push({
+      placeId: shared.placeId,
+      place: null,
+      keyword: options.keyword ?? null,
+      location: options.location ?? null,
+      searchRank: shared.searchRank,
+      refresh: false,
+    })
+  }
+
+  private async push(entry: BufferedPlace): Promise<boolean> {
+    this.throwTimedFlushError()
+
+    if (this.has(entry.placeId)) {
+      return false
+    }
+
+    // The batch is written when it waited long enough, also while the task is in a cooldown or a slow feed
+    if (this.pending.length === 0 && !this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null
+        this.flush().catch((error) => {
+          console.error(`${this.options.logPrefix || ''}❌ Failed to save buffered places:`, error.message)
+          this.timedFlushError = error
+        })
+      }, PLACE_BATCH_MAX_WAIT)
+    }
+    this.pending.push(entry)
+
+    if (this.pending.length >= PLACE_BATCH_SIZE) {
+      await this.flush()
+    }
+    return true
+  }
+
+  /**
+   * A failed timed flush fails the task on its next add or flush, like a failed flush would
+   */
+  private throwTimedFlushError(): void {
+    if (this.timedFlushError) {
+      const error = this.timedFlushError
+      this.timedFlushError = null
+      throw error
+    }
+  }
+
+  /**
+   * Checkpoint of the task after the places buffered so far, written with them
+   */
+  setCheckpoint(checkpoint: { lastPlaceLink: string }): void {
+    this.checkpoint = checkpoint
+  }
+
+  /**
+   * Write the buffered places and checkpoint, returns the number of places newly linked to the job
+   */
+  async flush(): Promise<number> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer)
+      this.flushTimer = null
+    }
+    this.throwTimedFlushError()
+
+    // Batches are written one after another, a timed flush may still be writing the previous one
+    const write = this.writing.then(() => this.write())
+    this.writing = write.catch(() => undefined)
+    return write
+  }
+
+  private async write(): Promise<number> {
+    if (this.pending.length === 0 && !this.checkpoint) return 0
+
+    const entries = this.pending
+    const checkpoint = this.checkpoint
+    this.pending = []
+    this.checkpoint = null
+
+    const { taskId, logPrefix = '' } = this.options
+    const job = this.job
+
+    // Places that were scraped, link-only entries have nothing to write
+    const scrapedFields = jobScrapeFields(job)
+    // Rows are written in place ID order, so concurrent batches lock the unique index in the same order
+    const scraped = entries
+      .filter((entry): entry is BufferedPlace & { place: ScrapedPlaceData } => entry.place !== null)
+      .sort((a, b) => a.placeId.localeCompare(b.placeId))
+    const rows = scraped.map(({ place, refresh }) => {
+      const enrich = Boolean(job.enrichWebsites && place.website)
+      const data = {
+        placeId: place.placeId,
+        name: place.name,
+        address: place.address,
+        city: place.city,
+        rating: place.rating,
+        reviewsCount: place.reviewsCount,
+        phone: place.phone,
+        website: place.website,
+        email: place.email,
+        facebook: place.facebook,
+        instagram: place.instagram,
+        twitter: place.twitter,
+        linkedin: place.linkedin,
+        plusCode: place.plusCode,
+        latitude: place.latitude,
+        longitude: place.longitude,
+        businessStatus: place.businessStatus,
+        businessTypes: place.businessTypes || [],
+        openingHours: place.openingHours || {},
+        about: place.about,
+        amenities: place.amenities,
+        contactSources: contactSourcesFromPlace(place) as Prisma.InputJsonValue,
+        enrichmentStatus: enrich ? 'PENDING' : undefined,
+        scrapedFields,
+      }
+      return {
+        refresh,
+        enrich,
+        place,
+        data,
+        // Updates of a stored place keep the values of fields this scrape did not cover
+        update: { ...data, businessTypes: place.businessTypes, openingHours: place.openingHours },
+        reviews: (place.reviews || []).map((review) => ({
+          ...review,
+          publishedAt: review.publishedAt ? new Date(review.publishedAt) : undefined,
+        })),
+      }
+    })
+
+    const dbStartTime = Date.now()
+    const { written, linked, enrichShared, scrapedCount } = await prisma.$transaction(
+      async (tx) => {
+        const created = rows.filter((row) => !row.refresh)
+        const inserted = created.length
+          ? await tx.scrapedPlace.createManyAndReturn({
+              data: created.map((row) => row.data),
+              skipDuplicates: true,
+              select: { id: true, placeId: true, name: true },
+            })
+          : []
+
+        // Reviews of the places that were inserted
+        const insertedIds = new Map(inserted.map((row) => [row.placeId, row.id]))
+        const reviews = created.flatMap((row) =>
+          insertedIds.has(row.place.placeId)
+            ? row.reviews.map((review) => ({ ...review, scrapedPlaceId: insertedIds.get(row.place.placeId)! }))
+            : []
+        )
+        if (reviews.length > 0) {
+          await tx.review.createMany({ data: reviews })
+        }
+
+        // Places stored meanwhile, or stored before and refreshed
+        const skipped = rows.filter((row) => row.refresh || !insertedIds.has(row.place.placeId))
+        const current = skipped.length
+          ? await tx.scrapedPlace.findMany({
+              where: { placeId: { in: skipped.map((row) => row.place.placeId) } },
+              select: { placeId: true, scrapedFields: true, contactSources: true },
+            })
+          : []
+        const currentPlaces = new Map(current.map((row) => [row.placeId, row]))
+        const storedFieldsOf = (placeId: string) => {
+          const stored = currentPlaces.get(placeId)?.scrapedFields
+          return Array.isArray(stored) ? (stored as string[]) : []
+        }
+
+        // Refreshed places, and places another job stored with fewer field groups than this job
+        // scrapes, are updated with the new data and reviews, other jobs' links see the new data.
+        // Places stored with every field group of this job are only linked
+        const updates = skipped.filter(
+          (row) =>
+            row.refresh || !scrapedFields.every((field) => storedFieldsOf(row.place.placeId).includes(field))
+        )
+        const updated: Array<{ id: string; placeId: string; name: string }> = []
+        for (const row of updates) {
+          const stored = currentPlaces.get(row.place.placeId)
+          const storedFields = storedFieldsOf(row.place.placeId)
+
+          // Sources found on the website by enrichment stay next to the new Maps sources
+          const contactSources = mergeContactSources(
+            (stored?.contactSources as ContactSources | null) || {},
+            contactSourcesFromPlace(row.place)
+          )
+          updated.push(
+            await tx.scrapedPlace.upsert({
+              where: { placeId: row.place.placeId },
+              create: { ...row.data, reviews: row.reviews.length ? { create: row.reviews } : undefined },
+              update: {
+                ...row.update,
+                contactSources: contactSources as Prisma.InputJsonValue,
+                scrapedFields: Array.from(new Set([...storedFields, ...scrapedFields])),
+                scrapedAt: new Date(),
+                reviews: row.reviews.length ? { deleteMany: {}, create: row.reviews } : undefined,
+              },
+              select: { id: true, placeId: true, name: true },
+            })
+          )
+        }
+
+        // Places another job stored are only linked
+        const writtenIds = new Set([...inserted, ...updated].map((row) => row.placeId))
+        const existingIds = entries
+          .filter((entry) => !writtenIds.has(entry.placeId))
+          .map((entry) => entry.placeId)
+        const existing = existingIds.length
+          ? await tx.scrapedPlace.findMany({
+              where: { placeId: { in: existingIds } },
+              select: { id: true, placeId: true, name: true, website: true, enrichmentStatus: true },
+            })
+          : []
+
+        const storedPlaces = new Map(
+          [...inserted, ...updated, ...existing].map((row) => [row.placeId, row])
+        )
+        const links = entries.filter((entry) => storedPlaces.has(entry.placeId))
+        const newLinks = links.length
+          ? await tx.jobPlace.createManyAndReturn({
+              data: [...links].sort((a, b) => a.placeId.localeCompare(b.placeId)).map((entry) => ({
+                jobId: job.id,
+                scrapedPlaceId: storedPlaces.get(entry.placeId)!.id,
+                keyword: entry.keyword,
+                location: entry.location,
+                searchRank: entry.searchRank,
+              })),
+              skipDuplicates: true,
+              select: { scrapedPlaceId: true },
+            })
+          : []
+        const linkedIds = new Set(newLinks.map((link) => link.scrapedPlaceId))
+
+        // Linked places whose website was never crawled are enriched for this job
+        const enrichShared = job.enrichWebsites
+          ? existing.filter((row) => linkedIds.has(row.id) && row.website && !row.enrichmentStatus)
+          : []
+        if (enrichShared.length > 0) {
+          await tx.scrapedPlace.updateMany({
+            where: { id: { in: enrichShared.map((row) => row.id) }, enrichmentStatus: null },
+            data: { enrichmentStatus: 'PENDING' },
+          })
+        }
+
+        // Tasks of the same job save in parallel, so counters are incremented in the database
+        const { scrapedCount } = await tx.job.update({
+          where: { id: job.id },
+          data: { scrapedCount: { increment: linkedIds.size } },
+          select: { scrapedCount: true },
+        })
+        if (taskId) {
+          await tx.jobTask.update({
+            where: { id: taskId },
+            data: {
+              scrapedCount: { increment: linkedIds.size },
+              ...(checkpoint || {}),
+            },
+          })
+        }
+
+        return {
+          written: rows
+            .filter((row) => writtenIds.has(row.place.placeId))
+            .map((row) => ({ ...row, id: storedPlaces.get(row.place.placeId)!.id })),
+          linked: links
+            .map((entry) => ({ ...entry, ...storedPlaces.get(entry.placeId)! }))
+            .filter((entry) => linkedIds.has(entry.id)),
+          enrichShared,
+          scrapedCount,
+        }
+      },
+      { timeout: 30000 }
+    )
+    const dbDuration = Date.now() - dbStartTime
+
+    if (entries.length > 0) {
+      const shared = linked.filter((entry) => !written.some((row) => row.id === entry.id)).length
+      const duplicates = entries.length - linked.length
+      console.log(
+        `${logPrefix}✓ Saved ${linked.length} places in ${dbDuration}ms` +
+          (shared > 0 ? `, ${shared} stored by other jobs` : '') +
+          (duplicates > 0 ? `, ${duplicates} already in this job` : '') +
+          `. Total: ${scrapedCount}`
+      )
+    }
+
+    // Hand the websites of the places written or newly linked to the enrichment queue
+    for (const { id, place, enrich } of written) {
+      if (enrich) {
+        await addEnrichJob({ jobId: job.id, scrapedPlaceId: id, website: place.website! })
+      }
+    }
+    for (const { id, website } of enrichShared) {
+      await addEnrichJob({ jobId: job.id, scrapedPlaceId: id, website: website! })
+    }
+
+    // The job's count before this batch, each place is reported with the count it brought the job to
+    const countBefore = scrapedCount - linked.length
+    for (let i = 0; i < linked.length; i++) {
+      const { placeId, name, keyword } = linked[i]
+
+      // Real-time update for the dashboard
+      await publishJobEvent('job:place-saved', {
+        jobId: job.id,
+        scrapedCount: countBefore + i + 1,
+        currentKeyword: keyword,
+        placeId,
+        placeName: name,
+      })
+    }
+
+    // Milestone notification when the batch passed a multiple of 500 places
+    if (Math.floor(scrapedCount / MILESTONE_EVERY) > Math.floor(countBefore / MILESTONE_EVERY)) {
+      const keywords = Array.isArray(job.keywords) ? job.keywords : []
+      await notifyMilestone({
+        id: job.id,
+        clientName: job.clientName,
+        scrapedCount: Math.floor(scrapedCount / MILESTONE_EVERY) * MILESTONE_EVERY,
+        totalEstimated:
+          job.jobType === 'PLACE_LIST'
+            ? (Array.isArray(job.placeInputs) ? job.placeInputs.length : 0)
+            : keywords.length * job.maxResultsPerKeyword,
+      })
+    }
+
+    return linked.length
+  }
+}
+
+/**
+ * Save a single place to a job right away, returns false when the job already had the place
+ */
+export async function savePlace(
+  job: PlaceStoreJob,
+  place: ScrapedPlaceData,
+  options: SavePlaceOptions & PlaceBufferOptions = {}
+): Promise<boolean> {
+  const { taskId, logPrefix, ...placeOptions } = options
+  const buffer = new PlaceBuffer(job, { taskId, logPrefix })
+  await buffer.add(place, placeOptions)
+  return (await buffer.flush()) > 0
+}
+
+/**
+ * Link a place another job stored to a job right away, returns false when the job already had the place
+ */
+export async function linkSharedPlace(
+  job: PlaceStoreJob,
+  shared: SharedPlace,
+  options: SavePlaceOptions & PlaceBufferOptions = {}
+): Promise<boolean> {
+  const { taskId, logPrefix, ...placeOptions } = options
+  const buffer = new PlaceBuffer(job, { taskId, logPrefix })
+  await buffer.addShared(shared, placeOptions)
+  return (await buffer.flush()) > 0
+}
@@ -3,18 +3,63 @@ import Bull from 'bull'
 // import { redis } from '@/lib/redis' 
 // Impor fungsi konfigurasi khusus Bull ditambahkan
 import { getBullRedisConfig } from '@/lib/redis'
+import type { SearchArea } from '@/services/grid'
+import type { TimeWindow } from '@/services/timeWindow'
+
+export type JobPriority = 'HIGH' | 'NORMAL' | 'LOW'
+
+export const JOB_PRIORITIES: JobPriority[] = ['HIGH', 'NORMAL', 'LOW']
+
+// Tasks run with 3 concurrent workers, each with its own browser
+export const TASK_CONCURRENCY = 3
 
 export interface ScrapeJobData {
   jobId: string
   clientName: string
+  priority?: JobPriority
+  jobType?: 'SEARCH' | 'PLACE_LIST'
   keywords: string[]
+  placeInputs?: string[]
   locations?: string[]
   maxResultsPerKeyword: number
+  searchArea?: SearchArea
+  gridCellSizeKm?: number
+  gridMaxDepth?: number
   minDelay: number
   maxDelay: number
   cooldownAfter: number
   cooldownDuration: number
-  resumeFromIndex?: number
+  sessionMaxPlaces: number
+  sessionMaxDuration: number
+  fieldsToScrape?: string[]
+  maxReviewsPerPlace?: number
+  enrichWebsites?: boolean
+  scrapeWindows?: TimeWindow[]
+  windowTimezone?: string
+}
+
+// One (keyword, location) pair of a job, or the whole list of a place list job
+export interface ScrapeTaskData {
+  jobId: string
+  taskId: string
+  // Used to share the worker slots between clients
+  clientName?: string
+  priority?: JobPriority
+}
+
+export interface RetryJobData {
+  failedScrapeId: string
+}
+
+// One run of a schedule, repeated by Bull on the schedule's cron expression
+export interface ScheduleJobData {
+  scheduleId: string
+}
+
+export interface EnrichJobData {
+  jobId: string
+  scrapedPlaceId: string
+  website: string
 }
 
 // Create the scrape queue
@@ -37,11 +82,189 @@ export const scrapeQueue = new Bull<ScrapeJobData>('gmaps-scrape', {
   },
 })
 
+// Jobs are split into tasks that run in parallel, the scrape queue only plans and queues them
+export const taskQueue = new Bull<ScrapeTaskData>('gmaps-scrape-task', {
+  redis: getBullRedisConfig(),
+
+  defaultJobOptions: {
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 30000, // 30 seconds
+    },
+    removeOnComplete: false,
+    removeOnFail: false,
+  },
+  settings: {
+    maxStalledCount: 2,
+    stalledInterval: 30000,
+  },
+})
+
+// Retries of FailedScrape records, each attempt is counted on the record itself
+export const retryQueue = new Bull<RetryJobData>('gmaps-retry', {
+  redis: getBullRedisConfig(),
+
+  defaultJobOptions: {
+    attempts: 1,
+    removeOnComplete: true,
+    removeOnFail: false,
+  },
+})
+
+// Runs of recurring schedules, each run creates a new job
+export const scheduleQueue = new Bull<ScheduleJobData>('gmaps-schedule', {
+  redis: getBullRedisConfig(),
+
+  defaultJobOptions: {
+    attempts: 1,
+    removeOnComplete: true,
+    removeOnFail: false,
+  },
+})
+
+// Website enrichment runs in its own queue so slow sites never hold up Maps scraping
+export const enrichQueue = new Bull<EnrichJobData>('gmaps-enrich', {
+  redis: getBullRedisConfig(),
+
+  defaultJobOptions: {
+    attempts: 2,
+    backoff: {
+      type: 'fixed',
+      delay: 60000, // 1 minute
+    },
+    removeOnComplete: true,
+    removeOnFail: false,
+  },
+})
+
+// Bull runs the lowest priority number first
+const JOB_PRIORITY_NUMBERS: Record<JobPriority, number> = { HIGH: 1, NORMAL: 2, LOW: 3 }
+
+// Task priorities of each job priority take a range of their own, Bull allows up to 2^21
+const TASK_PRIORITY_RANGE = 600000
+
 // Add job to queue
 export async function addScrapeJob(data: ScrapeJobData): Promise<Bull.Job<ScrapeJobData>> {
   return await scrapeQueue.add(data, {
     jobId: data.jobId, // Use our job ID as Bull job ID
-    priority: 1,
+    priority: JOB_PRIORITY_NUMBERS[data.priority || 'NORMAL'],
+  })
+}
+
+// Bull ignores a job whose ID is still kept as completed or failed, so remove it before re-adding
+async function removeFinishedJob(queue: Bull.Queue<any>, jobId: string): Promise<void> {
+  const existing = await queue.getJob(jobId)
+  if (existing && ((await existing.isCompleted()) || (await existing.isFailed()))) {
+    await existing.remove()
+  }
+}
+
+/**
+ * Bull priorities for new tasks of a client. Within a job priority, a client's tasks are
+ * numbered after its own waiting tasks and no earlier than the next waiting task of any
+ * client, so the worker slots take turns between clients instead of working through the
+ * backlog of whoever submitted first.
+ */
+async function fairTaskPriorities(
+  clientName: string,
+  priority: JobPriority,
+  count: number
+): Promise<number[]> {
+  const base = (JOB_PRIORITY_NUMBERS[priority] - 1) * TASK_PRIORITY_RANGE + 1
+  const ranks = (await taskQueue.getWaiting())
+    .filter((task) => (task.data.priority || 'NORMAL') === priority && task.opts.priority)
+    .map((task) => ({ clientName: task.data.clientName || '', rank: task.opts.priority! - base }))
+
+  const nextRank = ranks.length > 0 ? Math.min(...ranks.map((task) => task.rank)) : 0
+  const clientRanks = ranks.filter((task) => task.clientName === clientName).map((task) => task.rank)
+  const firstRank = clientRanks.length > 0 ? Math.max(nextRank, Math.max(...clientRanks) + 1) : nextRank
+
+  return Array.from(
+    { length: count },
+    (_, i) => base + Math.min(firstRank + i, TASK_PRIORITY_RANGE - 1)
+  )
+}
+
+// Queue tasks of one job, also used to run paused and failed tasks again
+export async function addScrapeTasks(
+  tasks: ScrapeTaskData[],
+  options: { delayUntil?: Date } = {}
+): Promise<void> {
+  if (tasks.length === 0) return
+
+  const { clientName = '', priority = 'NORMAL' } = tasks[0]
+  const priorities = await fairTaskPriorities(clientName, priority, tasks.length)
+
+  for (let i = 0; i < tasks.length; i++) {
+    const data = tasks[i]
+
+    // A task waiting for a time window, or handed over at a worker shutdown, is queued by its own
+    // running Bull job, so it needs an ID of its own
+    if (options.delayUntil) {
+      await taskQueue.add(data, {
+        jobId: `task-${data.taskId}-${options.delayUntil.getTime()}`,
+        delay: Math.max(0, options.delayUntil.getTime() - Date.now()),
+        priority: priorities[i],
+      })
+      continue
+    }
+
+    const bullJobId = `task-${data.taskId}`
+    await removeFinishedJob(taskQueue, bullJobId)
+
+    await taskQueue.add(data, {
+      jobId: bullJobId,
+      priority: priorities[i],
+    })
+  }
+}
+
+// Queue a retry of a failed scrape, the retry count keeps one queued retry per attempt
+export async function addRetryJob(
+  failedScrapeId: string,
+  retryCount: number
+): Promise<Bull.Job<RetryJobData>> {
+  return await retryQueue.add(
+    { failedScrapeId },
+    { jobId: `retry-${failedScrapeId}-${retryCount}` }
+  )
+}
+
+// Repeat a schedule on its cron expression, replacing the repeat it had before
+export async function setScheduleRepeat(schedule: {
+  id: string
+  cron: string
+  timezone: string
+  enabled: boolean
+}): Promise<void> {
+  await removeScheduleRepeat(schedule.id)
+
+  if (schedule.enabled) {
+    await scheduleQueue.add(
+      { scheduleId: schedule.id },
+      {
+        jobId: schedule.id,
+        repeat: { cron: schedule.cron, tz: schedule.timezone },
+      }
+    )
+  }
+}
+
+// Stop repeating a schedule, its cron expression or timezone may have changed since it was added
+export async function removeScheduleRepeat(scheduleId: string): Promise<void> {
+  const repeatableJobs = await scheduleQueue.getRepeatableJobs()
+  for (const repeatable of repeatableJobs) {
+    if (repeatable.id === scheduleId) {
+      await scheduleQueue.removeRepeatableByKey(repeatable.key)
+    }
+  }
+}
+
+// Queue a place website for enrichment
+export async function addEnrichJob(data: EnrichJobData): Promise<Bull.Job<EnrichJobData>> {
+  return await enrichQueue.add(data, {
+    jobId: `enrich-${data.scrapedPlaceId}`,
   })
 }
 
@@ -57,21 +280,44 @@ export async function pauseScrapeJob(jobId: string): Promise<void> {
 // Resume a specific job
 export async function resumeScrapeJob(data: ScrapeJobData): Promise<Bull.Job<ScrapeJobData>> {
   // Add job back to queue with resume data
+  await removeFinishedJob(scrapeQueue, data.jobId)
   return await scrapeQueue.add(data, {
     jobId: data.jobId,
-    priority: 2, // Higher priority for resumed jobs
+    priority: JOB_PRIORITY_NUMBERS[data.priority || 'NORMAL'],
   })
 }
 
-// Get queue stats
+// Remove a job's queued parent and task jobs, tasks already running are stopped by a job signal instead
+export async function removeQueuedJobs(jobId: string, taskIds: string[]): Promise<number> {
+  const bullJobs = await Promise.all([
+    scrapeQueue.getJob(jobId),
+    ...taskIds.map((taskId) => taskQueue.getJob(`task-${taskId}`)),
+  ])
+
+  // Tasks waiting for a time window are delayed under other IDs
+  const delayedTasks = await taskQueue.getDelayed()
+  bullJobs.push(...delayedTasks.filter((task) => task.data.jobId === jobId))
+
+  let removed = 0
+  for (const bullJob of bullJobs) {
+    if (bullJob && !(await bullJob.isActive())) {
+      await bullJob.remove()
+      removed++
+    }
+  }
+
+  return removed
+}
+
+// Get queue stats (of the task queue, where the scraping happens)
 export async function getQueueStats() {
   const [waiting, active, completed, failed, delayed, paused] = await Promise.all([
-    scrapeQueue.getWaitingCount(),
-    scrapeQueue.getActiveCount(),
-    scrapeQueue.getCompletedCount(),
-    scrapeQueue.getFailedCount(),
-    scrapeQueue.getDelayedCount(),
-    scrapeQueue.getPausedCount(),
+    taskQueue.getWaitingCount(),
+    taskQueue.getActiveCount(),
+    taskQueue.getCompletedCount(),
+    taskQueue.getFailedCount(),
+    taskQueue.getDelayedCount(),
+    taskQueue.getPausedCount(),
   ])
 
   return {
@@ -88,46 +334,6 @@ export async function getQueueStats() {
 export async function cleanOldJobs(olderThanMs = 7 * 24 * 60 * 60 * 1000): Promise<void> {
   await scrapeQueue.clean(olderThanMs, 'completed')
   await scrapeQueue.clean(olderThanMs, 'failed')
+  await taskQueue.clean(olderThanMs, 'completed')
+  await taskQueue.clean(olderThanMs, 'failed')
 }
-
-// Event emitter for real-time updates
-export class JobEventEmitter {
-  private listeners: Map<string, Set<(data: any) => void>> = new Map()
-
-  on(event: string, callback: (data: any) => void): void {
-    if (!this.listeners.has(event)) {
-      this.listeners.set(event, new Set())
-    }
-    this.listeners.get(event)!.add(callback)
-  }
-
-  off(event: string, callback: (data: any) => void): void {
-    const callbacks = this.listeners.get(event)
-    if (callbacks) {
-      callbacks.delete(callback)
-    }
-  }
-
-  emit(event: string, data: any): void {
-    const callbacks = this.listeners.get(event)
-    if (callbacks) {
-      callbacks.forEach((callback) => {
-        try {
-          callback(data)
-        } catch (error) {
-          console.error('Error in event listener:', error)
-        }
-      })
-    }
-  }
-
-  removeAllListeners(event?: string): void {
-    if (event) {
-      this.listeners.delete(event)
-    } else {
-      this.listeners.clear()
-    }
-  }
-}
-
-export const jobEvents = new JobEventEmitter()
\ No newline at end of file
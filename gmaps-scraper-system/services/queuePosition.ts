@@ -0,0 +1,71 @@
+import { prisma } from '@/lib/prisma'
+import { taskQueue, TASK_CONCURRENCY } from '@/services/queue'
+
+/**
+ * Queue positions and rough expected start times of jobs, for the dashboard
+ */
+
+export interface QueuePosition {
+  position: number // 1 is the next task to run
+  waitingTasks: number
+  expectedStartAt: string
+}
+
+// Used until enough tasks have completed to measure them
+const DEFAULT_TASK_DURATION = 10 * 60 * 1000
+
+// Average duration of recently completed tasks (ms)
+async function averageTaskDuration(): Promise<number> {
+  const recentTasks = await prisma.jobTask.findMany({
+    where: { status: 'COMPLETED', startedAt: { not: null }, completedAt: { not: null } },
+    orderBy: { completedAt: 'desc' },
+    take: 50,
+    select: { startedAt: true, completedAt: true },
+  })
+
+  if (recentTasks.length < 5) {
+    return DEFAULT_TASK_DURATION
+  }
+
+  const total = recentTasks.reduce(
+    (sum, task) => sum + (task.completedAt!.getTime() - task.startedAt!.getTime()),
+    0
+  )
+  return total / recentTasks.length
+}
+
+/**
+ * Queue position of every job with waiting tasks
+ */
+export async function getQueuePositions(): Promise<Map<string, QueuePosition>> {
+  const [waiting, activeCount, taskDuration] = await Promise.all([
+    taskQueue.getWaiting(),
+    taskQueue.getActiveCount(),
+    averageTaskDuration(),
+  ])
+
+  const ordered = waiting
+    .filter((task) => task)
+    .sort((a, b) => (a.opts.priority || 0) - (b.opts.priority || 0) || a.timestamp - b.timestamp)
+
+  const positions = new Map<string, QueuePosition>()
+  const now = Date.now()
+
+  ordered.forEach((task, index) => {
+    const existing = positions.get(task.data.jobId)
+    if (existing) {
+      existing.waitingTasks++
+      return
+    }
+
+    // Tasks start in waves of the worker's slots, the first wave once a running task finishes
+    const waves = Math.floor(index / TASK_CONCURRENCY) + (activeCount >= TASK_CONCURRENCY ? 1 : 0)
+    positions.set(task.data.jobId, {
+      position: index + 1,
+      waitingTasks: 1,
+      expectedStartAt: new Date(now + waves * taskDuration).toISOString(),
+    })
+  })
+
+  return positions
+}
@@ -0,0 +1,176 @@
+import type { JobStatus as BullJobStatus } from 'bull'
+import { prisma } from '@/lib/prisma'
+import { redis } from '@/lib/redis'
+import { addScrapeTasks, resumeScrapeJob, scrapeQueue, taskQueue } from '@/services/queue'
+import { scrapeJobData } from '@/services/jobConfig'
+
+/**
+ * Repair jobs whose status in Postgres drifted from their Bull queue state so they never progress
+ */
+
+// How often the scrape worker reconciles (ms)
+export const RECONCILE_INTERVAL = parseInt(process.env.RECONCILE_INTERVAL || '300000')
+
+// Jobs changed this recently may still be on their way into the queue (ms)
+const RECONCILE_GRACE_PERIOD = 2 * 60 * 1000
+
+// Workers reconcile at the same time, only the one holding the lock does the work
+const RECONCILE_LOCK_KEY = 'gmaps:reconcile-lock'
+
+// Bull states of a job that is still going to run
+const QUEUED_STATES: BullJobStatus[] = ['waiting', 'active', 'delayed', 'paused']
+
+export interface ReconcileResult {
+  checked: number
+  corrected: number
+}
+
+async function logCorrection(
+  jobId: string,
+  message: string,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  console.log(`🔧 Job ${jobId}: ${message}`)
+
+  await prisma.systemLog.create({
+    data: {
+      jobId,
+      level: 'WARNING',
+      event: 'JOB_RECONCILED',
+      message,
+      metadata: metadata as any,
+    },
+  })
+}
+
+/**
+ * Compare unfinished jobs with the queues and repair the ones that drifted. Returns null
+ * when another worker is reconciling. Finishing a job is left to the scrape worker, which
+ * also sends its notifications
+ */
+export async function reconcileJobs(options: {
+  owner: string
+  finishJob: (jobId: string) => Promise<void>
+}): Promise<ReconcileResult | null> {
+  const locked = await redis.set(
+    RECONCILE_LOCK_KEY,
+    options.owner,
+    'PX',
+    Math.floor(RECONCILE_INTERVAL / 2),
+    'NX'
+  )
+  if (!locked) return null
+
+  // Read the database before the queues, a task queued in between is at worst queued twice under the same ID
+  const jobs = await prisma.job.findMany({
+    where: {
+      updatedAt: { lt: new Date(Date.now() - RECONCILE_GRACE_PERIOD) },
+      OR: [
+        { status: { in: ['PENDING', 'RUNNING', 'WAITING_WINDOW'] } },
+        // Stopped jobs only when a task was left running
+        { status: { in: ['PAUSED', 'CANCELLED'] }, tasks: { some: { status: 'RUNNING' } } },
+      ],
+    },
+    include: {
+      tasks: {
+        where: { status: { in: ['PENDING', 'RUNNING'] } },
+        select: { id: true, status: true },
+      },
+      _count: {
+        select: { tasks: true },
+      },
+    },
+  })
+  if (jobs.length === 0) {
+    return { checked: 0, corrected: 0 }
+  }
+
+  const [queuedJobs, queuedTasks] = await Promise.all([
+    scrapeQueue.getJobs(QUEUED_STATES),
+    taskQueue.getJobs(QUEUED_STATES),
+  ])
+  const queuedJobIds = new Set(queuedJobs.filter(Boolean).map((bullJob) => String(bullJob.id)))
+  const queuedTaskIds = new Set(queuedTasks.filter(Boolean).map((bullJob) => bullJob.data.taskId))
+
+  let corrected = 0
+
+  for (const job of jobs) {
+    // The job's Bull job is still going to plan and queue its tasks
+    if (queuedJobIds.has(job.id)) continue
+
+    const lostTasks = job.tasks.filter((task) => !queuedTaskIds.has(task.id))
+
+    // Tasks of a paused or cancelled job whose worker died before they stopped
+    if (job.status === 'PAUSED' || job.status === 'CANCELLED') {
+      const stuckTasks = lostTasks.filter((task) => task.status === 'RUNNING')
+      if (stuckTasks.length === 0) continue
+
+      await prisma.jobTask.updateMany({
+        where: { id: { in: stuckTasks.map((task) => task.id) }, status: 'RUNNING' },
+        data: {
+          status: job.status,
+          completedAt: job.status === 'CANCELLED' ? new Date() : undefined,
+        },
+      })
+      await logCorrection(
+        job.id,
+        `${stuckTasks.length} tasks were still RUNNING on a ${job.status.toLowerCase()} job, marked ${job.status}`,
+        { status: job.status, taskIds: stuckTasks.map((task) => task.id) }
+      )
+      corrected++
+      continue
+    }
+
+    // Never planned: the Bull job is missing, or finished without running, e.g. ignored on a resume
+    if (job._count.tasks === 0) {
+      await resumeScrapeJob(scrapeJobData(job))
+      await logCorrection(
+        job.id,
+        `Job was ${job.status} without a queued Bull job, queued again`,
+        { status: job.status }
+      )
+      corrected++
+      continue
+    }
+
+    // Every task is finished, but the job was never closed
+    if (job.tasks.length === 0) {
+      await prisma.job.updateMany({
+        where: { id: job.id, status: { in: ['PENDING', 'WAITING_WINDOW'] } },
+        data: { status: 'RUNNING', windowOpensAt: null },
+      })
+      await options.finishJob(job.id)
+      await logCorrection(
+        job.id,
+        `Job was ${job.status} with no unfinished tasks, closed`,
+        { status: job.status }
+      )
+      corrected++
+      continue
+    }
+
+    if (lostTasks.length === 0) continue
+
+    // Unfinished tasks missing from the queue, e.g. running on a worker that crashed, continue from their checkpoint
+    await prisma.jobTask.updateMany({
+      where: { id: { in: lostTasks.map((task) => task.id) }, status: 'RUNNING' },
+      data: { status: 'PENDING' },
+    })
+    await addScrapeTasks(
+      lostTasks.map((task) => ({
+        jobId: job.id,
+        taskId: task.id,
+        clientName: job.clientName,
+        priority: job.priority,
+      }))
+    )
+    await logCorrection(
+      job.id,
+      `${lostTasks.length} unfinished tasks of a ${job.status} job had no Bull job, queued again`,
+      { status: job.status, taskIds: lostTasks.map((task) => task.id) }
+    )
+    corrected++
+  }
+
+  return { checked: jobs.length, corrected }
+}
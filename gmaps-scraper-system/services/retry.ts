@@ -0,0 +1,48 @@
+/**
+ * Retry policy for FailedScrape records, with an exponential backoff per error type
+ */
+
+const MINUTE = 60 * 1000
+
+// Delay before the first retry, per errorType
+export const RETRY_BASE_DELAYS: Record<string, number> = {
+  TimeoutError: 5 * MINUTE,
+  ProtocolError: 5 * MINUTE,
+  TargetCloseError: 5 * MINUTE,
+  EXTRACTION_FAILED: 60 * MINUTE,
+  CAPTCHA: 60 * MINUTE,
+}
+
+const DEFAULT_BASE_DELAY = 15 * MINUTE
+
+// Jobs whose failures are retried, running and paused jobs still run their own tasks
+export const RETRYABLE_JOB_STATUSES = ['COMPLETED', 'FAILED'] as const
+
+export interface RetryableFailure {
+  errorType: string
+  retryCount: number
+  maxRetries: number
+  failedAt: Date
+  lastRetryAt: Date | null
+  resolvedAt: Date | null
+}
+
+/**
+ * Time to wait after the last attempt before retrying, doubled for every retry made so far
+ */
+export function retryDelay(errorType: string, retryCount: number): number {
+  const base = RETRY_BASE_DELAYS[errorType] ?? DEFAULT_BASE_DELAY
+  return base * 2 ** retryCount
+}
+
+/**
+ * Whether the periodic retry scan should queue this failure now
+ */
+export function isRetryDue(failure: RetryableFailure, now = new Date()): boolean {
+  if (failure.resolvedAt || failure.retryCount >= failure.maxRetries) {
+    return false
+  }
+
+  const lastAttempt = failure.lastRetryAt || failure.failedAt
+  return now.getTime() - lastAttempt.getTime() >= retryDelay(failure.errorType, failure.retryCount)
+}
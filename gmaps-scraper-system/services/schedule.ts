@@ -0,0 +1,51 @@
+import { parseExpression } from 'cron-parser'
+
+/**
+ * Recurring schedules, each run of the cron expression creates a new job from the schedule settings
+ */
+
+/**
+ * Validate a cron expression and timezone from an API request, returns an error message or null
+ */
+export function validateSchedule(cron: any, timezone: any): string | null {
+  if (typeof cron !== 'string' || cron.trim().split(/\s+/).length !== 5) {
+    return 'cron must be an expression with 5 fields: minute hour day-of-month month day-of-week'
+  }
+
+  const timezoneError = validateTimezone(timezone)
+  if (timezoneError) {
+    return timezoneError
+  }
+
+  try {
+    parseExpression(cron, { tz: timezone })
+  } catch (error: any) {
+    return `Invalid cron expression: ${error.message}`
+  }
+
+  return null
+}
+
+/**
+ * Validate an IANA timezone name, returns an error message or null
+ */
+export function validateTimezone(timezone: any): string | null {
+  if (typeof timezone !== 'string') {
+    return 'timezone must be an IANA timezone, e.g. Europe/Amsterdam'
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+  } catch {
+    return `Unknown timezone: ${timezone}`
+  }
+
+  return null
+}
+
+/**
+ * Next time the cron expression fires after the given date
+ */
+export function nextRunTime(cron: string, timezone: string, after = new Date()): Date {
+  return parseExpression(cron, { tz: timezone, currentDate: after }).next().toDate()
+}
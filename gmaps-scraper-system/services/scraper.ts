@@ -1,7 +1,18 @@
 import puppeteer, { Browser, Page } from 'puppeteer'
 import StealthPlugin from 'puppeteer-extra-plugin-stealth'
 import { applyStealthMeasures, detectCaptcha } from '@/utils/stealth'
-import { humanDelay, cooldownDelay } from '@/utils/delays'
+import { humanDelay, cooldownDelay, sleep } from '@/utils/delays'
+import {
+  buildPageScript,
+  parseAboutAttributes,
+  parseOpeningHours,
+  parsePlaceDocument,
+  parsePlaceId,
+  parsePlaceName,
+  placeLinkFromInput,
+  parseRelativeDate,
+  parseReviews,
+} from '@/services/placeParser'
 
 // Apply stealth plugin
 const puppeteerExtra = require('puppeteer-extra')
@@ -28,19 +39,177 @@ export interface ScrapedPlaceData {
   businessTypes?: string[]
   openingHours?: any
   about?: string
-  amenities?: any
+  amenities?: AmenityGroups
+  reviews?: ScrapedReviewData[]
+  // Position in the search feed, starting at 1, for places found by a search
+  searchRank?: number
+}
+
+/**
+ * About tab attributes by group, e.g. { "Accessibility": { "Wheelchair accessible entrance": true } }
+ * true means the place has the attribute, false means Maps lists it as absent
+ */
+export type AmenityGroups = Record<string, Record<string, boolean>>
+
+export interface ScrapedReviewData {
+  reviewId?: string
+  authorName?: string
+  rating?: number
+  relativeDate?: string
+  publishedAt?: string // ISO date approximated from relativeDate
+  text?: string
+  language?: string
+  ownerResponse?: string
+  ownerResponseDate?: string
+}
+
+/**
+ * How a search should treat a place that is already stored:
+ * 'counted' places count towards maxResults, 'ignored' places do not,
+ * 'shared' places were stored by another job and are handed to onSharedPlace instead of visited
+ */
+export type KnownPlace = 'counted' | 'ignored' | 'shared'
+
+/**
+ * Map center and zoom level a search is restricted to (grid search cells)
+ */
+export interface MapViewport {
+  latitude: number
+  longitude: number
+  zoom: number
+}
+
+/**
+ * What the results feed held once scrolling stopped
+ */
+export interface FeedSummary {
+  resultsCount: number
+  // The feed showed its end-of-list marker
+  reachedEnd: boolean
+  // Scrolling stopped because maxResults candidates were loaded
+  stoppedEarly: boolean
+}
+
+/**
+ * Where a search got to: the place links its feed listed and the last one processed
+ */
+export interface SearchCheckpoint {
+  placeLinks: string[]
+  lastPlaceLink: string | null
+}
+
+export interface SearchOptions {
+  // Stop scrolling and visiting detail pages once this many places are collected
+  maxResults?: number
+  // Resolve whether a place is already stored, so its detail page can be skipped
+  lookupKnownPlace?: (placeId: string) => Promise<KnownPlace | null>
+  // Search within this viewport instead of wherever Maps centers the query
+  viewport?: MapViewport
+  // Called before any detail page is visited, returning false ends the search there
+  onFeedLoaded?: (feed: FeedSummary) => boolean | Promise<boolean>
+  // Continue from this checkpoint instead of loading and scrolling the results feed again
+  checkpoint?: SearchCheckpoint
+  // Called once the feed's links are collected and after each link is processed
+  onCheckpoint?: (checkpoint: SearchCheckpoint) => void | Promise<void>
+  // Called for each place whose detail page could not be scraped, the search moves on
+  onPlaceFailed?: (failure: FailedPlace) => void | Promise<void>
+  // Called for each place another job stored, it counts towards maxResults without a visit
+  onSharedPlace?: (place: SharedPlace) => void | Promise<void>
+}
+
+/**
+ * A place of a search that is already stored by another job
+ */
+export interface SharedPlace {
+  link: string
+  placeId: string
+  searchRank: number
+}
+
+/**
+ * A place of a search whose detail page failed
+ */
+export interface FailedPlace {
+  link: string
+  placeId: string | null
+  placeName: string | null
+  error: { name: string; message: string }
+}
+
+/**
+ * Optional field groups a job can request. Name, address, website and place ID are always extracted
+ */
+export const SCRAPE_FIELDS = [
+  'phone',
+  'rating',
+  'city',
+  'businessInfo',
+  'coordinates',
+  'socialMedia',
+  'amenities',
+  'reviews',
+] as const
+
+export type ScrapeField = (typeof SCRAPE_FIELDS)[number]
+
+export interface ScraperOptions {
+  // Origin that search and place URLs are built from (a local mock server in tests)
+  baseUrl: string
+  // Human-like delay between place visits (ms)
+  minDelay: number
+  maxDelay: number
+  // Pause for cooldownDuration (ms) after every cooldownAfter places
+  cooldownAfter: number
+  cooldownDuration: number
+  // Restart the browser after this many places or this much time (ms)
+  sessionMaxPlaces: number
+  sessionMaxDuration: number
+  // Field groups to extract from each place page
+  fieldsToScrape: ScrapeField[]
+  // Reviews to collect per place when 'reviews' is requested
+  maxReviewsPerPlace: number
+  // Called when a cooldown starts and ends, and after the browser session is restarted
+  onCooldownStart?: (durationMs: number) => void | Promise<void>
+  onCooldownEnd?: () => void | Promise<void>
+  onBrowserRestart?: (placesInSession: number) => void | Promise<void>
+}
+
+export const DEFAULT_SCRAPER_OPTIONS: ScraperOptions = {
+  baseUrl: process.env.GOOGLE_MAPS_BASE_URL || 'https://www.google.com',
+  minDelay: 2000,
+  maxDelay: 4000,
+  cooldownAfter: 50,
+  cooldownDuration: 60000,
+  sessionMaxPlaces: 500,
+  sessionMaxDuration: 60 * 60 * 1000,
+  fieldsToScrape: [...SCRAPE_FIELDS],
+  maxReviewsPerPlace: 20,
 }
 
 export class GoogleMapsScraper {
   private browser: Browser | null = null
   private page: Page | null = null
   private placesScrapedInSession = 0
+  private placesSinceCooldown = 0
   private sessionStartTime = Date.now()
+  // Set by abort(), the scraper never opens a browser again after it
+  private aborted = false
+  // Ends the delay or cooldown the scraper is waiting in when it is aborted
+  private abortController = new AbortController()
+  private options: ScraperOptions
+
+  constructor(options: Partial<ScraperOptions> = {}) {
+    this.options = { ...DEFAULT_SCRAPER_OPTIONS, ...options }
+  }
 
   async initialize(): Promise<void> {
+    if (this.aborted) {
+      throw new Error('SCRAPE_ABORTED')
+    }
+
     console.log('Initializing browser...')
 
-    this.browser = await puppeteerExtra.launch({
+    const browser: Browser = await puppeteerExtra.launch({
       headless: true,
       args: [
         '--no-sandbox',
@@ -53,112 +222,232 @@ export class GoogleMapsScraper {
       ],
     })
 
-    this.page = await this.browser.newPage()
-    await applyStealthMeasures(this.page)
+    this.browser = browser
+    this.page = await browser.newPage()
+    await applyStealthMeasures(this.page, this.options.baseUrl)
 
     console.log('Browser initialized successfully')
   }
 
   async checkAndRestartSession(): Promise<void> {
     const timeSinceStart = Date.now() - this.sessionStartTime
-    const oneHour = 60 * 60 * 1000
+    const { sessionMaxPlaces, sessionMaxDuration } = this.options
 
-    // Restart browser every 500 places or 60 minutes for optimal performance
-    if (this.placesScrapedInSession >= 500 || timeSinceStart >= oneHour) {
+    // Restart browser periodically (every 500 places or 60 minutes by default) for optimal performance
+    if (
+      this.placesScrapedInSession >= sessionMaxPlaces ||
+      timeSinceStart >= sessionMaxDuration
+    ) {
       console.log('⟳ Restarting browser session for freshness...')
       await this.close()
       await this.initialize()
+      await this.options.onBrowserRestart?.(this.placesScrapedInSession)
       this.placesScrapedInSession = 0
       this.sessionStartTime = Date.now()
     }
   }
 
-  async searchPlaces(
+  /**
+   * Search Google Maps and yield each place as soon as its details are extracted,
+   * so callers can persist results incrementally instead of waiting for the whole search
+   */
+  async *searchPlaces(
     keyword: string,
-    location?: string
-  ): Promise<ScrapedPlaceData[]> {
+    location?: string,
+    options: SearchOptions = {}
+  ): AsyncGenerator<ScrapedPlaceData> {
     if (!this.page) {
       throw new Error('Browser not initialized')
     }
 
     const searchQuery = location ? `${keyword} in ${location}` : keyword
-    const searchUrl = `https://www.google.com/maps/search/${encodeURIComponent(searchQuery)}`
+    const { viewport } = options
+    const searchUrl = viewport
+      ? `${this.options.baseUrl}/maps/search/${encodeURIComponent(searchQuery)}/@${viewport.latitude},${viewport.longitude},${viewport.zoom}z`
+      : `${this.options.baseUrl}/maps/search/${encodeURIComponent(searchQuery)}`
 
     console.log(`Searching for: ${searchQuery}`)
 
     try {
-      await this.page.goto(searchUrl, {
-        waitUntil: 'networkidle2',
-        timeout: 60000,
-      })
-
-      // Check for CAPTCHA
-      if (await detectCaptcha(this.page)) {
-        throw new Error('CAPTCHA_DETECTED')
+      const maxResults = options.maxResults ?? Infinity
+      const knownPlaces = new Map<string, KnownPlace | null>()
+
+      // Look up place IDs we have not seen yet in this search
+      const classifyLinks = async (links: string[]): Promise<void> => {
+        for (const link of links) {
+          const placeId = parsePlaceId(link)
+          if (placeId && !knownPlaces.has(placeId)) {
+            knownPlaces.set(
+              placeId,
+              options.lookupKnownPlace ? await options.lookupKnownPlace(placeId) : null
+            )
+          }
+        }
       }
 
-      // Wait for results to load
-      await this.page.waitForSelector('[role="feed"]', { timeout: 10000 })
+      const countCandidates = (links: string[]): number =>
+        links.filter((link) => {
+          const placeId = parsePlaceId(link)
+          return !placeId || knownPlaces.get(placeId) !== 'ignored'
+        }).length
+
+      let placeLinks: string[]
+      let resumeIndex = 0
+
+      if (options.checkpoint) {
+        // The feed was loaded before, continue after the last processed link
+        placeLinks = options.checkpoint.placeLinks
+        const { lastPlaceLink } = options.checkpoint
+        resumeIndex = lastPlaceLink ? placeLinks.indexOf(lastPlaceLink) + 1 : 0
+        await classifyLinks(placeLinks)
+
+        console.log(`Resuming "${searchQuery}" at place ${resumeIndex + 1}/${placeLinks.length}`)
+      } else {
+        await this.page.goto(searchUrl, {
+          waitUntil: 'networkidle2',
+          timeout: 60000,
+        })
 
-      // Scroll to load more results
-      await this.scrollResults()
+        // Check for CAPTCHA
+        if (await detectCaptcha(this.page)) {
+          throw new Error('CAPTCHA_DETECTED')
+        }
 
-      // Get all place links
-      const placeLinks = await this.extractPlaceLinks()
+        // Wait for results to load
+        await this.page.waitForSelector('[role="feed"]', { timeout: 10000 })
 
-      console.log(`Found ${placeLinks.length} places for "${searchQuery}"`)
+        // Scroll to load more results, stopping early once the feed holds enough candidates
+        const scrollOutcome = await this.scrollResults(
+          Number.isFinite(maxResults)
+            ? async () => {
+                const links = await this.extractPlaceLinks()
+                await classifyLinks(links)
+                return countCandidates(links) >= maxResults
+              }
+            : undefined
+        )
 
-      const scrapedData: ScrapedPlaceData[] = []
-      const totalPlaces = placeLinks.length
+        // Get all place links
+        placeLinks = await this.extractPlaceLinks()
 
-      for (let i = 0; i < placeLinks.length; i++) {
-        const link = placeLinks[i]
+        // Scrolling and extracting swallow page errors, an abort would look like an empty feed
+        if (this.aborted) {
+          throw new Error('SCRAPE_ABORTED')
+        }
+        await classifyLinks(placeLinks)
 
-        try {
-          console.log(`  [${i + 1}/${totalPlaces}] Scraping place...`)
+        console.log(`Found ${placeLinks.length} places for "${searchQuery}"`)
 
-          // Check session health
-          await this.checkAndRestartSession()
+        if (options.onFeedLoaded) {
+          const proceed = await options.onFeedLoaded({
+            resultsCount: placeLinks.length,
+            reachedEnd: scrollOutcome === 'end',
+            stoppedEarly: scrollOutcome === 'enough',
+          })
+          if (!proceed) {
+            console.log(`↷ Skipping places of "${searchQuery}"`)
+            return
+          }
+        }
 
-          // Human-like delay between places
-          await humanDelay()
+        await options.onCheckpoint?.({ placeLinks, lastPlaceLink: null })
+      }
 
-          // Check for CAPTCHA before each scrape
-          if (await detectCaptcha(this.page!)) {
-            throw new Error('CAPTCHA_DETECTED')
-          }
+      // Mark a link as processed, whether it was scraped, skipped or failed
+      const checkpointAt = async (link: string): Promise<void> => {
+        await options.onCheckpoint?.({ placeLinks, lastPlaceLink: link })
+      }
+
+      let scrapedCount = 0
+      let collectedCount = 0
+      const totalPlaces = placeLinks.length
 
-          const placeData = await this.scrapePlaceDetails(link)
+      for (let i = 0; i < placeLinks.length; i++) {
+        if (collectedCount >= maxResults) {
+          console.log(`✓ Reached limit of ${maxResults} places`)
+          break
+        }
 
-          if (placeData) {
-            console.log(`  ✓ ${placeData.name}`)
-            scrapedData.push(placeData)
-            this.placesScrapedInSession++
+        const link = placeLinks[i]
+        let placeData: ScrapedPlaceData | null = null
 
-            // Progress indicator every 10 places
-            if (scrapedData.length % 10 === 0) {
-              const percentage = Math.round((scrapedData.length / totalPlaces) * 100)
-              console.log(`📊 Progress: ${scrapedData.length}/${totalPlaces} (${percentage}%)`)
-            }
+        const linkPlaceId = parsePlaceId(link)
+        const known = linkPlaceId ? knownPlaces.get(linkPlaceId) : null
 
-            // Cooldown every 50 items
-            if (scrapedData.length % 50 === 0) {
-              await cooldownDelay()
-            }
-          } else {
-            console.log(`  ✗ Failed to extract data`)
+        // Links processed before the checkpoint only count towards the limit
+        if (i < resumeIndex) {
+          if (known === 'counted') {
+            collectedCount++
+          }
+          continue
+        }
+
+        // Skip detail pages of places that are already stored
+        if (known) {
+          console.log(`  [${i + 1}/${totalPlaces}] Already stored, skipping`)
+          if (known === 'shared') {
+            await options.onSharedPlace?.({ link, placeId: linkPlaceId!, searchRank: i + 1 })
+          }
+          if (known !== 'ignored') {
+            collectedCount++
           }
+          await checkpointAt(link)
+          continue
+        }
+
+        try {
+          console.log(`  [${i + 1}/${totalPlaces}] Scraping place...`)
+          placeData = await this.visitPlace(link)
         } catch (error: any) {
-          if (error.message === 'CAPTCHA_DETECTED') {
+          // A page that failed because the scraper was aborted is not a failed place
+          if (error.message === 'CAPTCHA_DETECTED' || this.aborted) {
             throw error
           }
           console.log(`  ✗ Error: ${error.message}`)
+          await options.onPlaceFailed?.({
+            link,
+            placeId: linkPlaceId,
+            placeName: parsePlaceName(link),
+            error: { name: error.name || 'UNKNOWN_ERROR', message: error.message },
+          })
+          await checkpointAt(link)
+          continue
+        }
+
+        if (!placeData) {
+          if (this.aborted) {
+            throw new Error('SCRAPE_ABORTED')
+          }
+          console.log(`  ✗ Failed to extract data`)
+          await options.onPlaceFailed?.({
+            link,
+            placeId: linkPlaceId,
+            placeName: parsePlaceName(link),
+            error: { name: 'EXTRACTION_FAILED', message: 'No place data found on the page' },
+          })
+          await checkpointAt(link)
           continue
         }
+
+        console.log(`  ✓ ${placeData.name}`)
+        placeData.searchRank = i + 1
+        scrapedCount++
+        collectedCount++
+
+        // Hand the place to the caller before moving on to the next one
+        yield placeData
+        await checkpointAt(link)
+
+        // Progress indicator every 10 places
+        if (scrapedCount % 10 === 0) {
+          const percentage = Math.round((scrapedCount / totalPlaces) * 100)
+          console.log(`📊 Progress: ${scrapedCount}/${totalPlaces} (${percentage}%)`)
+        }
+
+        await this.cooldownIfNeeded()
       }
 
-      console.log(`Completed! Scraped ${scrapedData.length} places`)
-      return scrapedData
+      console.log(`Completed! Scraped ${scrapedCount} places`)
     } catch (error: any) {
       if (error.message === 'CAPTCHA_DETECTED') {
         throw error
@@ -168,8 +457,82 @@ export class GoogleMapsScraper {
     }
   }
 
-  private async scrollResults(): Promise<void> {
-    if (!this.page) return
+  /**
+   * Scrape a single place from a place URL or ID, with the same session rotation,
+   * delays, cooldown and CAPTCHA checks as places visited from a search.
+   * Returns null when the page holds no place data
+   */
+  async scrapePlace(input: string): Promise<ScrapedPlaceData | null> {
+    if (!this.page) {
+      throw new Error('Browser not initialized')
+    }
+
+    const link = placeLinkFromInput(input)
+    if (!link) {
+      throw new Error(`Not a Google Maps place URL or ID: ${input}`)
+    }
+
+    const placeData = await this.visitPlace(link)
+    if (placeData) {
+      await this.cooldownIfNeeded()
+    }
+
+    return placeData
+  }
+
+  /**
+   * Open a place page the way a person would: fresh session when due, a human-like
+   * delay, and a CAPTCHA check before extracting the details
+   */
+  private async visitPlace(link: string): Promise<ScrapedPlaceData | null> {
+    if (this.aborted) {
+      throw new Error('SCRAPE_ABORTED')
+    }
+
+    // Check session health
+    await this.checkAndRestartSession()
+
+    // Human-like delay between places
+    await humanDelay(this.options.minDelay, this.options.maxDelay, this.abortController.signal)
+
+    // Check for CAPTCHA before each scrape
+    if (await detectCaptcha(this.page!)) {
+      throw new Error('CAPTCHA_DETECTED')
+    }
+
+    const placeData = await this.scrapePlaceDetails(link)
+
+    // The hours, amenities and reviews extractors swallow page errors, so a place aborted mid-visit lacks fields
+    if (this.aborted) {
+      throw new Error('SCRAPE_ABORTED')
+    }
+    if (placeData) {
+      this.placesScrapedInSession++
+      this.placesSinceCooldown++
+    }
+
+    return placeData
+  }
+
+  // Cooldown every cooldownAfter places, counted across searches
+  private async cooldownIfNeeded(): Promise<void> {
+    if (this.placesSinceCooldown >= this.options.cooldownAfter) {
+      await this.options.onCooldownStart?.(this.options.cooldownDuration)
+      await cooldownDelay(this.options.cooldownDuration, this.abortController.signal)
+      await this.options.onCooldownEnd?.()
+      this.placesSinceCooldown = 0
+    }
+  }
+
+  /**
+   * Scroll the results feed, resolves with why scrolling stopped
+   */
+  private async scrollResults(
+    isEnough?: () => Promise<boolean>
+  ): Promise<'end' | 'enough' | 'exhausted'> {
+    if (!this.page) return 'exhausted'
+
+    let outcome: 'end' | 'enough' | 'exhausted' = 'exhausted'
 
     console.log('📜 Scrolling to load all results...')
 
@@ -199,7 +562,7 @@ export class GoogleMapsScraper {
         }, feedSelector)
 
         // Wait 3 seconds for lazy-loading (increased for reliability)
-        await new Promise(resolve => setTimeout(resolve, 3000))
+        await sleep(3000, this.abortController.signal)
 
         // Count current results
         const currentCount = await this.page.evaluate(() => {
@@ -221,6 +584,14 @@ export class GoogleMapsScraper {
 
         if (endOfResults) {
           console.log(`✓ Reached end of list after ${i + 1} scrolls`)
+          outcome = 'end'
+          break
+        }
+
+        // Check if the caller already has enough results
+        if (isEnough && (await isEnough())) {
+          console.log(`✓ Loaded enough results after ${i + 1} scrolls`)
+          outcome = 'enough'
           break
         }
 
@@ -248,6 +619,8 @@ export class GoogleMapsScraper {
     } catch (error) {
       console.error('Error scrolling results:', error)
     }
+
+    return outcome
   }
 
   private async extractPlaceLinks(): Promise<string[]> {
@@ -276,14 +649,16 @@ export class GoogleMapsScraper {
   private async scrapePlaceDetails(
     placeLink: string
   ): Promise<ScrapedPlaceData | null> {
-    // Hard timeout wrapper - if place takes >30s, skip it
+    // Hard timeout wrapper - if place takes >30s (+60s when scrolling reviews), skip it
+    const timeoutMs = this.options.fieldsToScrape.includes('reviews') ? 90000 : 30000
+
     return await Promise.race([
       this._scrapePlaceDetailsInternal(placeLink),
       new Promise<null>((resolve) =>
         setTimeout(() => {
-          console.log('  ⏱️  Timeout 30s - skipping')
+          console.log(`  ⏱️  Timeout ${timeoutMs / 1000}s - skipping`)
           resolve(null)
-        }, 30000)
+        }, timeoutMs)
       ),
     ])
   }
@@ -296,7 +671,7 @@ export class GoogleMapsScraper {
     try {
       const fullUrl = placeLink.startsWith('http')
         ? placeLink
-        : `https://www.google.com${placeLink}`
+        : `${this.options.baseUrl}${placeLink}`
 
       await this.page.goto(fullUrl, {
         waitUntil: 'networkidle2',
@@ -306,257 +681,179 @@ export class GoogleMapsScraper {
       // Wait for place details to load
       await this.page.waitForSelector('h1', { timeout: 5000 }) // Reduced from 10000
 
-      // Extract place ID from URL
-      const placeId = await this.extractPlaceId()
+      // Parse the page in the browser with the same parser used against saved snapshots
+      const data = (await this.page.evaluate(
+        buildPageScript(parsePlaceDocument, [this.page.url(), this.options.fieldsToScrape])
+      )) as ScrapedPlaceData | null
 
-      if (!placeId) {
-        console.error('Could not extract place ID')
+      if (!data) {
+        console.error('Could not extract place ID or name')
         return null
       }
 
-      // Extract all data
-      const data = await this.page.evaluate(() => {
-        const getText = (selector) => {
-          const el = document.querySelector(selector)
-          return el?.textContent?.trim() || undefined
-        }
-
-        const getAttribute = (selector, attr) => {
-          const el = document.querySelector(selector)
-          return el?.getAttribute(attr) || undefined
-        }
-
-        // Name
-        const name = getText('h1')
-
-        // Address
-        const addressButton = Array.from(document.querySelectorAll('button[data-item-id]')).find(btn =>
-          btn.getAttribute('data-item-id') && btn.getAttribute('data-item-id').includes('address')
-        );
-        const address = addressButton && addressButton.getAttribute('aria-label')
-          ? addressButton.getAttribute('aria-label').replace('Address: ', '')
-          : undefined;
-
-        // City - extracted from address
-        let city
-        if (address) {
-          // Try to extract city from address (usually second-to-last part before country)
-          const addressParts = address.split(',').map(p => p.trim())
-          if (addressParts.length >= 2) {
-            // Get second-to-last part (usually city)
-            city = addressParts[addressParts.length - 2]
-          }
-        }
-
-        // Rating and reviews - improved extraction
-        const ratingEl = document.querySelector('[role="img"][aria-label*="star"]')
-        let rating
-        let reviewsCount
-
-        if (ratingEl) {
-          const ratingText = ratingEl.getAttribute('aria-label') || ''
-          const ratingMatch = ratingText.match(/[\d.]+/)
-          rating = ratingMatch ? parseFloat(ratingMatch[0]) : undefined
-        }
+      // Extract opening hours (needs a click on the hours button)
+      if (this.options.fieldsToScrape.includes('businessInfo')) {
+        data.openingHours = await this.extractOpeningHours()
+      }
 
-        // Find reviews button
-        const reviewsButton = Array.from(document.querySelectorAll('button')).find(
-          (btn) => {
-            const ariaLabel = btn.getAttribute('aria-label') || ''
-            return ariaLabel.includes('review') || ariaLabel.includes('reviews')
-          }
-        )
+      // Extract structured About attributes (opens the About tab)
+      if (this.options.fieldsToScrape.includes('amenities')) {
+        data.amenities = await this.extractAmenities()
+      }
 
-        if (reviewsButton) {
-          const reviewsText = reviewsButton.getAttribute('aria-label') || ''
-          const reviewsMatch = reviewsText.match(/[\d,]+/)
-          reviewsCount = reviewsMatch ? parseInt(reviewsMatch[0].replace(/,/g, '')) : undefined
-        }
+      // Extract reviews (opens the reviews tab, so it runs last)
+      if (this.options.fieldsToScrape.includes('reviews')) {
+        data.reviews = await this.extractReviews()
+      }
 
-        // Phone
-        const phoneButton = Array.from(document.querySelectorAll('button[data-item-id]')).find(btn =>
-          btn.getAttribute('data-item-id') && btn.getAttribute('data-item-id').includes('phone')
-        );
-        const phone = phoneButton && phoneButton.getAttribute('aria-label')
-          ? phoneButton.getAttribute('aria-label').replace('Phone: ', '')
-          : undefined;
-
-        // Website
-        const websiteLink = Array.from(document.querySelectorAll('a[data-item-id]')).find(
-          (link) => link.getAttribute('data-item-id')?.includes('authority')
-        )
-        const website = websiteLink?.href
-
-        // Business status
-        const statusEl = document.querySelector('[class*=\"operational\"]');
-        const businessStatus = statusEl && statusEl.textContent ? statusEl.textContent.trim() : undefined;
-
-        // Business types
-        const typeButton = document.querySelector('button[jsaction*=\"category\"]');
-        const businessTypesText = typeButton && typeButton.textContent ? typeButton.textContent.trim() : undefined;
-
-        // Plus code
-        const plusCodeButton = Array.from(document.querySelectorAll('button[data-item-id]')).find(btn =>
-          btn.getAttribute('data-item-id') && btn.getAttribute('data-item-id').includes('plus_code')
-        );
-        const plusCode = plusCodeButton && plusCodeButton.getAttribute('aria-label')
-          ? plusCodeButton.getAttribute('aria-label').replace('Plus code: ', '')
-          : undefined;
-
-        // About
-        const aboutSection = document.querySelector('[aria-label*=\"About\"]');
-        const about = aboutSection && aboutSection.textContent ? aboutSection.textContent.trim() : undefined;
-
-        return {
-          name,
-          address,
-          city,
-          rating,
-          reviewsCount,
-          phone,
-          website,
-          businessStatus,
-          businessTypes: businessTypesText ? [businessTypesText] : undefined,
-          plusCode,
-          about
-        };
-      })()`)
-
-      // Extract coordinates from URL
-      const coordinates = this.extractCoordinates(this.page.url())
-
-      // Extract social media links
-      const socialMedia = await this.extractSocialMedia()
-
-      // Extract opening hours
-      const openingHours = await this.extractOpeningHours()
-
-      return {
-        placeId,
-        ...data,
-        ...coordinates,
-        ...socialMedia,
-        openingHours,
-      } as ScrapedPlaceData
+      return data
     } catch (error) {
       console.error('Error scraping place details:', error)
       return null
     }
   }
 
-  private async extractPlaceId(): Promise<string | null> {
+  private async extractOpeningHours(): Promise<any> {
     if (!this.page) return null
 
     try {
-      const url = this.page.url()
-      const match = url.match(/!1s([^!]+)/)
-      return match ? match[1] : null
-    } catch (error) {
-      return null
-    }
-  }
+      // Click on hours button if available
+      const hoursButton = await this.page.$('button[aria-label*="hours"]')
 
-  private extractCoordinates(url: string): {
-    latitude?: number
-    longitude?: number
-  } {
-    try {
-      const match = url.match(/@(-?\d+\.\d+),(-?\d+\.\d+)/)
-      if (match) {
-        return {
-          latitude: parseFloat(match[1]),
-          longitude: parseFloat(match[2]),
-        }
+      if (hoursButton) {
+        await hoursButton.click()
+        await humanDelay(500, 1000, this.abortController.signal)
+
+        const hours = await this.page.evaluate(buildPageScript(parseOpeningHours))
+
+        return hours
       }
     } catch (error) {
-      console.error('Error extracting coordinates:', error)
+      console.error('Error extracting opening hours:', error)
     }
-    return {}
+
+    return null
   }
 
-  private async extractSocialMedia(): Promise<{
-    facebook?: string
-    instagram?: string
-    twitter?: string
-    linkedin?: string
-    email?: string
-  }> {
-    if (!this.page) return {}
+  private async extractAmenities(): Promise<AmenityGroups | undefined> {
+    if (!this.page) return undefined
 
     try {
-      return await this.page.evaluate(() => {
-        const links = Array.from(document.querySelectorAll('a[href]'))
-        const result = {}
-
-        links.forEach((link) => {
-          const href = link.getAttribute('href') || ''
-
-          if (href.includes('facebook.com')) {
-            result.facebook = href
-          } else if (href.includes('instagram.com')) {
-            result.instagram = href
-          } else if (href.includes('twitter.com') || href.includes('x.com')) {
-            result.twitter = href
-          } else if (href.includes('linkedin.com')) {
-            result.linkedin = href
-          } else if (href.startsWith('mailto:')) {
-            result.email = href.replace('mailto:', '')
-          }
-        })
+      const aboutTab = await this.page.$('button[role="tab"][aria-label*="About"]')
+      if (!aboutTab) return undefined
 
-        return result
-      })
+      await aboutTab.click()
+      await this.page.waitForSelector('[role="region"][aria-label*="About"] h2', { timeout: 5000 })
+
+      const amenities = (await this.page.evaluate(
+        buildPageScript(parseAboutAttributes)
+      )) as AmenityGroups | null
+
+      return amenities || undefined
     } catch (error) {
-      return {}
+      console.error('Error extracting amenities:', error)
+      return undefined
     }
   }
 
-  private async extractOpeningHours(): Promise<any> {
-    if (!this.page) return null
+  private async extractReviews(): Promise<ScrapedReviewData[]> {
+    if (!this.page) return []
+
+    const limit = this.options.maxReviewsPerPlace
+    if (limit <= 0) return []
 
     try {
-      // Click on hours button if available
-      const hoursButton = await this.page.$('button[aria-label*="hours"]')
+      // Open the reviews tab
+      const reviewsTab = await this.page.$('button[role="tab"][aria-label*="Reviews"]')
+      if (!reviewsTab) return []
 
-      if (hoursButton) {
-        await hoursButton.click()
-        await humanDelay(500, 1000)
-
-        const hours = await this.page.evaluate(() => {
-          const table = document.querySelector('table[aria-label*="hours"]')
-          if (!table) return null
-
-          const rows = Array.from(table.querySelectorAll('tr'))
-          const schedule = {}
-
-          rows.forEach((row) => {
-            const cells = Array.from(row.querySelectorAll('td'))
-            if (cells.length >= 2) {
-              const day = cells[0].textContent?.trim()
-              const hours = cells[1].textContent?.trim()
-              if (day && hours) {
-                schedule[day] = hours
-              }
-            }
-          })
+      await reviewsTab.click()
+      await this.page.waitForSelector('div[data-review-id]', { timeout: 5000 })
 
-          return schedule
+      let previousCount = 0
+      let noChangeCount = 0
+
+      // Scroll the reviews panel until enough reviews are loaded
+      for (let i = 0; i < 30; i++) {
+        const currentCount = await this.page.evaluate(() => {
+          const items = document.querySelectorAll('div[data-review-id]')
+          const last = items[items.length - 1]
+
+          // The panel is the closest scrollable ancestor of the reviews
+          let panel = last?.parentElement || null
+          while (panel && panel.scrollHeight <= panel.clientHeight) {
+            panel = panel.parentElement
+          }
+          if (panel) {
+            panel.scrollTop = panel.scrollHeight
+          }
+
+          return new Set(
+            Array.from(items).map((item) => item.getAttribute('data-review-id'))
+          ).size
         })
 
-        return hours
+        if (currentCount >= limit) break
+
+        if (currentCount === previousCount) {
+          noChangeCount++
+          if (noChangeCount >= 3) break
+        } else {
+          noChangeCount = 0
+        }
+
+        previousCount = currentCount
+        await humanDelay(1000, 2000, this.abortController.signal)
       }
+
+      // Expand truncated review texts
+      await this.page.evaluate(() => {
+        document
+          .querySelectorAll('button[aria-label="See more"]')
+          .forEach((button) => (button as HTMLButtonElement).click())
+      })
+
+      const reviews = (await this.page.evaluate(
+        buildPageScript(parseReviews, [limit])
+      )) as ScrapedReviewData[]
+
+      return reviews.map((review) => {
+        const publishedAt = review.relativeDate
+          ? parseRelativeDate(review.relativeDate)
+          : null
+        return publishedAt ? { ...review, publishedAt: publishedAt.toISOString() } : review
+      })
     } catch (error) {
-      console.error('Error extracting opening hours:', error)
+      console.error('Error extracting reviews:', error)
+      return []
     }
+  }
 
-    return null
+  /**
+   * Process ID of the running browser, for the memory report of the worker registry
+   */
+  getBrowserPid(): number | null {
+    return this.browser?.process()?.pid ?? null
+  }
+
+  /**
+   * Stop the scraper from another task: closing the browser makes the current
+   * navigation fail right away, a running delay or cooldown ends early, and any
+   * further page visit throws SCRAPE_ABORTED
+   */
+  async abort(): Promise<void> {
+    this.aborted = true
+    this.abortController.abort()
+    await this.close()
   }
 
   async close(): Promise<void> {
-    if (this.browser) {
-      await this.browser.close()
-      this.browser = null
-      this.page = null
+    // Cleared before closing, an abort may close the browser while the task is also closing it
+    const browser = this.browser
+    this.browser = null
+    this.page = null
+    if (browser) {
+      await browser.close()
     }
   }
 }
@@ -0,0 +1,115 @@
+import { nextRunTime, validateTimezone } from '@/services/schedule'
+
+/**
+ * Weekly time windows in the job timezone a job is allowed to scrape in
+ */
+
+export interface TimeWindow {
+  days: number[] // Days the window opens on, 0 = Sunday
+  start: string // "HH:MM"
+  end: string // "HH:MM", "24:00" for midnight
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-4]):([0-5]\d)$/
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * Validate time windows and their timezone from an API request, returns an error message or null
+ */
+export function validateTimeWindows(windows: any, timezone: any): string | null {
+  if (!Array.isArray(windows) || windows.length === 0) {
+    return 'scrapeWindows must be a non-empty array of { days, start, end }'
+  }
+
+  for (const window of windows) {
+    if (
+      !window ||
+      !Array.isArray(window.days) ||
+      window.days.length === 0 ||
+      !window.days.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)
+    ) {
+      return 'days must be a non-empty array of weekdays from 0 (Sunday) to 6 (Saturday)'
+    }
+
+    if (typeof window.start !== 'string' || !TIME_PATTERN.test(window.start) || toMinutes(window.start) >= 24 * 60) {
+      return `Invalid start time: ${window.start}, use HH:MM`
+    }
+
+    if (typeof window.end !== 'string' || !TIME_PATTERN.test(window.end) || toMinutes(window.end) > 24 * 60) {
+      return `Invalid end time: ${window.end}, use HH:MM`
+    }
+
+    if (toMinutes(window.start) === toMinutes(window.end)) {
+      return 'start and end of a window must differ'
+    }
+  }
+
+  return validateTimezone(timezone)
+}
+
+// Weekday and minutes since midnight of a moment in the timezone
+function localTime(date: Date, timezone: string): { day: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || ''
+
+  return {
+    day: WEEKDAYS.indexOf(part('weekday')),
+    minutes: parseInt(part('hour')) * 60 + parseInt(part('minute')),
+  }
+}
+
+/**
+ * Whether any of the windows is open at this moment
+ */
+export function isWithinTimeWindow(windows: TimeWindow[], timezone: string, now = new Date()): boolean {
+  const { day, minutes } = localTime(now, timezone)
+  const previousDay = (day + 6) % 7
+
+  return windows.some((window) => {
+    const start = toMinutes(window.start)
+    const end = toMinutes(window.end)
+
+    if (start < end) {
+      return window.days.includes(day) && minutes >= start && minutes < end
+    }
+
+    // Past midnight: open from start on one of its days until end on the next day
+    return (
+      (window.days.includes(day) && minutes >= start) ||
+      (window.days.includes(previousDay) && minutes < end)
+    )
+  })
+}
+
+/**
+ * Next moment one of the windows opens
+ */
+export function nextTimeWindowOpening(windows: TimeWindow[], timezone: string, now = new Date()): Date {
+  const openings = windows.map((window) => {
+    const [hours, minutes] = window.start.split(':').map(Number)
+    return nextRunTime(`${minutes} ${hours} * * ${window.days.join(',')}`, timezone, now)
+  })
+
+  return new Date(Math.min(...openings.map((opening) => opening.getTime())))
+}
+
+/**
+ * The windows of a job, or null when it may scrape at any time
+ */
+export function jobTimeWindows(job: { scrapeWindows: unknown }): TimeWindow[] | null {
+  return Array.isArray(job.scrapeWindows) && job.scrapeWindows.length > 0
+    ? (job.scrapeWindows as TimeWindow[])
+    : null
+}
@@ -0,0 +1,192 @@
+import { promises as fs } from 'fs'
+import { redis } from '@/lib/redis'
+
+/**
+ * Registry of running scrape workers and their slots in Redis, refreshed on a heartbeat
+ */
+
+const WORKERS_KEY = 'gmaps:workers'
+const LOST_WORKERS_KEY = 'gmaps:workers:lost'
+const workerKey = (workerId: string) => `gmaps:worker:${workerId}`
+
+// How often workers report (ms)
+export const WORKER_HEARTBEAT_INTERVAL = parseInt(process.env.WORKER_HEARTBEAT_INTERVAL || '15000')
+
+// A worker that has not reported for this long is considered lost (ms)
+export const WORKER_TIMEOUT = WORKER_HEARTBEAT_INTERVAL * 4
+
+// Lost workers stay listed for an hour (seconds)
+const LOST_WORKER_RETENTION = 60 * 60
+
+export interface WorkerSlot {
+  slot: number
+  jobId: string
+  taskId: string
+  clientName: string
+  keyword: string | null
+  location: string | null
+  startedAt: string
+  browserMemoryMb: number | null
+}
+
+export interface WorkerInfo {
+  id: string
+  hostname: string
+  pid: number
+  concurrency: number
+  startedAt: string
+  lastHeartbeat: string
+  memoryMb: number
+  slots: WorkerSlot[]
+}
+
+export interface WorkerStatus extends WorkerInfo {
+  status: 'alive' | 'lost'
+}
+
+/**
+ * Store a worker's heartbeat
+ */
+export async function saveWorker(info: WorkerInfo): Promise<void> {
+  await redis
+    .multi()
+    .set(workerKey(info.id), JSON.stringify(info))
+    .sadd(WORKERS_KEY, info.id)
+    .exec()
+}
+
+/**
+ * Take a worker out of the registry, e.g. when it shuts down
+ */
+export async function removeWorker(workerId: string): Promise<void> {
+  await redis
+    .multi()
+    .del(workerKey(workerId))
+    .srem(WORKERS_KEY, workerId)
+    .srem(LOST_WORKERS_KEY, workerId)
+    .exec()
+}
+
+async function readWorkers(workerIds: string[]): Promise<Array<WorkerInfo | null>> {
+  if (workerIds.length === 0) return []
+  const values = await redis.mget(workerIds.map(workerKey))
+  return values.map((value) => (value ? (JSON.parse(value) as WorkerInfo) : null))
+}
+
+/**
+ * All registered workers, live ones first
+ */
+export async function listWorkers(now = Date.now()): Promise<WorkerStatus[]> {
+  const [aliveIds, lostIds] = await Promise.all([
+    redis.smembers(WORKERS_KEY),
+    redis.smembers(LOST_WORKERS_KEY),
+  ])
+
+  const [aliveWorkers, lostWorkers] = await Promise.all([
+    readWorkers(aliveIds),
+    readWorkers(lostIds),
+  ])
+
+  // Entries of lost workers expire, drop their IDs as well
+  const expiredIds = lostIds.filter((_, index) => !lostWorkers[index])
+  if (expiredIds.length > 0) {
+    await redis.srem(LOST_WORKERS_KEY, ...expiredIds)
+  }
+
+  return [
+    ...aliveWorkers
+      .filter((worker): worker is WorkerInfo => worker !== null)
+      .map((worker) => ({
+        ...worker,
+        // Not claimed as lost yet, but already past the timeout
+        status: (now - new Date(worker.lastHeartbeat).getTime() > WORKER_TIMEOUT
+          ? 'lost'
+          : 'alive') as WorkerStatus['status'],
+      })),
+    ...lostWorkers
+      .filter((worker): worker is WorkerInfo => worker !== null)
+      .map((worker) => ({ ...worker, status: 'lost' as const })),
+  ]
+}
+
+/**
+ * Claim the workers whose heartbeat expired. Several workers check at the same
+ * time, each lost worker is returned to only one of them
+ */
+export async function claimLostWorkers(now = Date.now()): Promise<WorkerInfo[]> {
+  const workerIds = await redis.smembers(WORKERS_KEY)
+  const workers = await readWorkers(workerIds)
+  const claimed: WorkerInfo[] = []
+
+  for (let i = 0; i < workerIds.length; i++) {
+    const workerId = workerIds[i]
+    const worker = workers[i]
+    if (worker && now - new Date(worker.lastHeartbeat).getTime() <= WORKER_TIMEOUT) {
+      continue
+    }
+
+    const removed = await redis.srem(WORKERS_KEY, workerId)
+    if (removed === 0 || !worker) continue
+
+    await redis
+      .multi()
+      .sadd(LOST_WORKERS_KEY, workerId)
+      .expire(workerKey(workerId), LOST_WORKER_RETENTION)
+      .exec()
+    claimed.push(worker)
+  }
+
+  return claimed
+}
+
+/**
+ * Resident memory per process including its children, e.g. a browser with its
+ * renderers, in MB. Only available on Linux, where /proc can be read
+ */
+export async function processTreeMemoryMb(rootPids: number[]): Promise<Map<number, number>> {
+  const memory = new Map<number, number>()
+  if (rootPids.length === 0 || process.platform !== 'linux') {
+    return memory
+  }
+
+  const processes = await Promise.all(
+    (await fs.readdir('/proc'))
+      .filter((name) => /^\d+$/.test(name))
+      .map(async (name) => {
+        try {
+          const status = await fs.readFile(`/proc/${name}/status`, 'utf8')
+          return {
+            pid: Number(name),
+            ppid: Number(/^PPid:\s+(\d+)/m.exec(status)?.[1] || 0),
+            rssKb: Number(/^VmRSS:\s+(\d+)/m.exec(status)?.[1] || 0),
+          }
+        } catch {
+          // The process exited while reading
+          return null
+        }
+      })
+  )
+
+  const children = new Map<number, number[]>()
+  const rssKb = new Map<number, number>()
+  for (const proc of processes) {
+    if (!proc) continue
+    rssKb.set(proc.pid, proc.rssKb)
+    children.set(proc.ppid, [...(children.get(proc.ppid) || []), proc.pid])
+  }
+
+  for (const rootPid of rootPids) {
+    if (!rssKb.has(rootPid)) continue
+
+    let totalKb = 0
+    const stack = [rootPid]
+    while (stack.length > 0) {
+      const pid = stack.pop()!
+      totalKb += rssKb.get(pid) || 0
+      stack.push(...(children.get(pid) || []))
+    }
+    memory.set(rootPid, Math.round(totalKb / 1024))
+  }
+
+  return memory
+}
@@ -20,26 +20,41 @@ export function getRandomDelay(min: number, max: number): number {
 }
 
 /**
- * Sleep for a specified number of milliseconds
+ * Sleep for a specified number of milliseconds, rejects with SCRAPE_ABORTED as soon as the signal aborts
  */
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms))
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('SCRAPE_ABORTED'))
+      return
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new Error('SCRAPE_ABORTED'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
 }
 
 /**
  * Get a human-like delay between actions
  * Optimized to 2-4 seconds for speed with 3 concurrent workers
  */
-export async function humanDelay(minMs = 2000, maxMs = 4000): Promise<void> {
+export async function humanDelay(minMs = 2000, maxMs = 4000, signal?: AbortSignal): Promise<void> {
   const delay = getRandomDelay(minMs, maxMs)
-  await sleep(delay)
+  await sleep(delay, signal)
 }
 
 /**
  * Cooldown period after scraping multiple items
  * Optimized to 60 seconds for better throughput
  */
-export async function cooldownDelay(durationMs = 60000): Promise<void> {
+export async function cooldownDelay(durationMs = 60000, signal?: AbortSignal): Promise<void> {
   console.log(`⏸️  Cooldown period: ${durationMs / 1000} seconds...`)
-  await sleep(durationMs)
+  await sleep(durationMs, signal)
 }
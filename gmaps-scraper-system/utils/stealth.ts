@@ -3,7 +3,10 @@ import { Browser, Page } from 'puppeteer'
 /**
  * Apply additional stealth measures to a page
  */
-export async function applyStealthMeasures(page: Page): Promise<void> {
+export async function applyStealthMeasures(
+  page: Page,
+  origin = 'https://www.google.com'
+): Promise<void> {
   // Set realistic viewport
   await page.setViewport({
     width: 1920 + Math.floor(Math.random() * 100),
@@ -27,7 +30,7 @@ export async function applyStealthMeasures(page: Page): Promise<void> {
 
   // Override permissions
   const context = page.browserContext()
-  await context.overridePermissions('https://www.google.com', [
+  await context.overridePermissions(origin, [
     'geolocation',
     'notifications',
   ])
@@ -0,0 +1,84 @@
+import 'dotenv/config'
+import type { Prisma } from '@prisma/client'
+import { enrichQueue, EnrichJobData } from '@/services/queue'
+import {
+  crawlWebsite,
+  mergeContactSources,
+  CONTACT_FIELDS,
+  ContactSources,
+} from '@/services/enrichment'
+import { prisma } from '@/lib/prisma'
+import { Job as BullJob } from 'bull'
+
+// Websites are plain HTTP fetches, so several can be crawled at once
+const ENRICH_CONCURRENCY = parseInt(process.env.ENRICH_CONCURRENCY || '5')
+
+enrichQueue.process(ENRICH_CONCURRENCY, async (job: BullJob<EnrichJobData>) => {
+  const { jobId, scrapedPlaceId, website } = job.data
+
+  const place = await prisma.scrapedPlace.findUnique({ where: { id: scrapedPlaceId } })
+
+  if (!place) {
+    console.log(`⚠️  Place ${scrapedPlaceId} no longer exists, skipping enrichment`)
+    return
+  }
+
+  console.log(`🌐 Enriching ${place.name} from ${website}`)
+
+  try {
+    const found = await crawlWebsite(website)
+    const contactSources = mergeContactSources(
+      (place.contactSources as ContactSources | null) || {},
+      found
+    )
+
+    // Only fill columns the Maps page left empty
+    const updates: Partial<Record<(typeof CONTACT_FIELDS)[number], string>> = {}
+    CONTACT_FIELDS.forEach((field) => {
+      const value = found[field]?.[0]?.value
+      if (value && !place[field]) {
+        updates[field] = value
+      }
+    })
+
+    await prisma.scrapedPlace.update({
+      where: { id: scrapedPlaceId },
+      data: {
+        ...updates,
+        contactSources: contactSources as Prisma.InputJsonValue,
+        enrichmentStatus: 'COMPLETED',
+        enrichedAt: new Date(),
+      },
+    })
+
+    const filled = Object.keys(updates)
+    console.log(`✓ Enriched ${place.name}: ${filled.length > 0 ? filled.join(', ') : 'nothing new'}`)
+  } catch (error: any) {
+    // Retry once, then record the failure on the place
+    if (job.attemptsMade + 1 < (job.opts.attempts || 1)) {
+      throw error
+    }
+
+    await prisma.scrapedPlace.update({
+      where: { id: scrapedPlaceId },
+      data: { enrichmentStatus: 'FAILED', enrichedAt: new Date() },
+    })
+
+    await prisma.systemLog.create({
+      data: {
+        jobId,
+        level: 'WARNING',
+        event: 'ENRICHMENT_FAILED',
+        message: `Website enrichment failed for ${place.name} (${website}): ${error.message}`,
+      },
+    })
+
+    console.error(`❌ Enrichment failed for ${place.name}:`, error.message)
+  }
+})
+
+enrichQueue.on('failed', (job, err) => {
+  console.error(`❌ Enrichment ${job?.id} failed:`, err.message)
+})
+
+console.log(`🌐 Enrichment worker started with ${ENRICH_CONCURRENCY} concurrent crawls - listening for places...`)
@@ -0,0 +1,253 @@
+import 'dotenv/config'
+import { retryQueue, RetryJobData, addRetryJob } from '@/services/queue'
+import { GoogleMapsScraper, ScrapeField, SCRAPE_FIELDS } from '@/services/scraper'
+import { placeLinkFromInput } from '@/services/placeParser'
+import { linkSharedPlace, lookupKnownPlace, savePlace } from '@/services/placeStore'
+import { isRetryDue, RETRYABLE_JOB_STATUSES } from '@/services/retry'
+import { cellLabel, cellViewport } from '@/services/grid'
+import { isWithinTimeWindow, jobTimeWindows } from '@/services/timeWindow'
+import { finishJobIfDone } from '@/services/jobFinish'
+import { prisma } from '@/lib/prisma'
+import { Job as BullJob } from 'bull'
+
+// Each retry opens a browser, so they run one at a time by default
+const RETRY_CONCURRENCY = parseInt(process.env.RETRY_CONCURRENCY || '1')
+
+// How often failures that are due for a retry are queued (ms)
+const RETRY_SCAN_INTERVAL = parseInt(process.env.RETRY_SCAN_INTERVAL || '300000')
+
+retryQueue.process(RETRY_CONCURRENCY, async (job: BullJob<RetryJobData>) => {
+  const { failedScrapeId } = job.data
+
+  const failure = await prisma.failedScrape.findUnique({
+    where: { id: failedScrapeId },
+    include: { job: true },
+  })
+
+  if (!failure || failure.resolvedAt) {
+    console.log(`⚠️  Failed scrape ${failedScrapeId} is gone or resolved, skipping retry`)
+    return
+  }
+
+  const dbJob = failure.job
+  const fieldsToScrape = dbJob.fieldsToScrape as string[] | null
+  const target = failure.placeInput || failure.placeId || failure.keyword
+  let scraper: GoogleMapsScraper | null = null
+  let completedTasks = 0
+
+  // Retries keep to the job's scraping hours, the periodic scan queues them again later
+  const timeWindows = jobTimeWindows(dbJob)
+  if (timeWindows && !isWithinTimeWindow(timeWindows, dbJob.windowTimezone)) {
+    console.log(`⏰ ${target} is outside the job's scraping hours, retrying in a later scan`)
+    return
+  }
+
+  console.log(`🔁 Retrying ${target} (attempt ${failure.retryCount + 1}/${failure.maxRetries})`)
+
+  try {
+    scraper = new GoogleMapsScraper({
+      minDelay: dbJob.minDelay,
+      maxDelay: dbJob.maxDelay,
+      cooldownAfter: dbJob.cooldownAfter,
+      cooldownDuration: dbJob.cooldownDuration,
+      sessionMaxPlaces: dbJob.sessionMaxPlaces,
+      sessionMaxDuration: dbJob.sessionMaxDuration,
+      fieldsToScrape: fieldsToScrape
+        ? SCRAPE_FIELDS.filter((field: ScrapeField) => fieldsToScrape.includes(field))
+        : undefined,
+      maxReviewsPerPlace: dbJob.maxReviewsPerPlace,
+    })
+    await scraper.initialize()
+
+    // A single place, from a place list or a search feed
+    const placeInput = [failure.placeInput, failure.placeId].find(
+      (value): value is string => Boolean(value && placeLinkFromInput(value))
+    )
+
+    if (placeInput) {
+      const place = await scraper.scrapePlace(placeInput)
+      if (!place) {
+        throw Object.assign(new Error('No place data found on the page'), {
+          name: 'EXTRACTION_FAILED',
+        })
+      }
+
+      // A place stored by another job in the meantime is linked to this one
+      await savePlace(dbJob, place, {
+        keyword: failure.keyword,
+        location: failure.location,
+        refresh: dbJob.jobType === 'PLACE_LIST',
+      })
+    } else if (failure.keyword) {
+      // A whole search, or a grid cell of one
+      const cell = dbJob.searchArea
+        ? (
+            await prisma.searchCell.findMany({
+              where: { jobId: dbJob.id, keyword: failure.keyword, status: 'FAILED' },
+            })
+          ).find((searchCell) => cellLabel(searchCell) === failure.location)
+        : undefined
+
+      let newPlaces = 0
+      const places = scraper.searchPlaces(
+        failure.keyword,
+        cell ? undefined : failure.location || undefined,
+        {
+          maxResults: dbJob.maxResultsPerKeyword,
+          lookupKnownPlace: async (placeId) => {
+            const known = await lookupKnownPlace(dbJob, placeId)
+            // Grid cells only collect places no other cell found
+            return cell && known === 'counted' ? 'ignored' : known
+          },
+          onSharedPlace: async (shared) => {
+            const linkOptions = { keyword: failure.keyword, location: failure.location }
+            if (await linkSharedPlace(dbJob, shared, linkOptions)) {
+              newPlaces++
+            }
+          },
+          viewport: cell ? cellViewport(cell) : undefined,
+          onPlaceFailed: async ({ link, placeId, placeName, error }) => {
+            await prisma.failedScrape.create({
+              data: {
+                jobId: dbJob.id,
+                keyword: failure.keyword,
+                location: failure.location,
+                placeInput: link,
+                placeId,
+                placeName,
+                errorType: error.name,
+                errorMessage: error.message,
+              },
+            })
+            await prisma.job.update({
+              where: { id: dbJob.id },
+              data: { failedCount: { increment: 1 } },
+            })
+          },
+        }
+      )
+
+      for await (const place of places) {
+        if (await savePlace(dbJob, place, { keyword: failure.keyword, location: failure.location })) {
+          newPlaces++
+        }
+      }
+
+      if (cell) {
+        await prisma.searchCell.update({
+          where: { id: cell.id },
+          data: { status: 'DONE', newPlaces, completedAt: new Date() },
+        })
+      } else {
+        const { count } = await prisma.jobTask.updateMany({
+          where: {
+            jobId: dbJob.id,
+            keyword: failure.keyword,
+            location: failure.location,
+            status: 'FAILED',
+          },
+          data: { status: 'COMPLETED', errorMessage: null, completedAt: new Date() },
+        })
+        completedTasks = count
+      }
+
+      console.log(`✓ Retried search for ${failure.keyword}: ${newPlaces} new places`)
+    } else {
+      throw new Error('Failure has no place or keyword to retry')
+    }
+
+    await prisma.failedScrape.update({
+      where: { id: failedScrapeId },
+      data: {
+        retryCount: { increment: 1 },
+        lastRetryAt: new Date(),
+        resolvedAt: new Date(),
+      },
+    })
+
+    await prisma.job.update({
+      where: { id: dbJob.id },
+      data: { failedCount: { decrement: 1 } },
+    })
+
+    await prisma.systemLog.create({
+      data: {
+        jobId: dbJob.id,
+        level: 'INFO',
+        event: 'RETRY_SUCCEEDED',
+        message: `Retry of ${target} succeeded after ${failure.retryCount + 1} attempts`,
+      },
+    })
+
+    // A job that failed because all of its tasks failed completes once a retry completed one
+    if (completedTasks > 0) {
+      await finishJobIfDone(dbJob.id, 'FAILED')
+    }
+
+    console.log(`✓ Retry of ${target} succeeded`)
+  } catch (error: any) {
+    const errorType = error.message === 'CAPTCHA_DETECTED' ? 'CAPTCHA' : error.name || 'UNKNOWN_ERROR'
+
+    await prisma.failedScrape.update({
+      where: { id: failedScrapeId },
+      data: {
+        retryCount: { increment: 1 },
+        lastRetryAt: new Date(),
+        errorType,
+        errorMessage: error.message || 'Unknown error occurred',
+      },
+    })
+
+    if (failure.retryCount + 1 >= failure.maxRetries) {
+      await prisma.systemLog.create({
+        data: {
+          jobId: dbJob.id,
+          level: 'WARNING',
+          event: 'RETRIES_EXHAUSTED',
+          message: `Gave up on ${target} after ${failure.retryCount + 1} retries: ${error.message}`,
+        },
+      })
+    }
+
+    console.error(`❌ Retry of ${target} failed:`, error.message)
+  } finally {
+    if (scraper) {
+      await scraper.close()
+    }
+  }
+})
+
+// Queue the failures of finished jobs whose backoff has passed
+async function queueDueRetries(): Promise<void> {
+  try {
+    const failures = await prisma.failedScrape.findMany({
+      where: {
+        resolvedAt: null,
+        retryCount: { lt: prisma.failedScrape.fields.maxRetries },
+        job: { status: { in: [...RETRYABLE_JOB_STATUSES] } },
+      },
+      orderBy: { failedAt: 'asc' },
+      take: 500,
+    })
+
+    const due = failures.filter((failure) => isRetryDue(failure))
+    for (const failure of due) {
+      await addRetryJob(failure.id, failure.retryCount)
+    }
+
+    if (due.length > 0) {
+      console.log(`🔁 Queued ${due.length} failed scrapes for retry`)
+    }
+  } catch (error) {
+    console.error('Error queueing retries:', error)
+  }
+}
+
+setInterval(queueDueRetries, RETRY_SCAN_INTERVAL)
+queueDueRetries()
+
+retryQueue.on('failed', (job, err) => {
+  console.error(`❌ Retry ${job?.id} failed:`, err.message)
+})
+
+console.log(`🔁 Retry worker started, checking for due retries every ${RETRY_SCAN_INTERVAL / 1000}s...`)
@@ -0,0 +1,75 @@
+import 'dotenv/config'
+import { scheduleQueue, ScheduleJobData, setScheduleRepeat } from '@/services/queue'
+import { parseJobConfig, createJob } from '@/services/jobConfig'
+import { nextRunTime } from '@/services/schedule'
+import { prisma } from '@/lib/prisma'
+import { Job as BullJob } from 'bull'
+
+scheduleQueue.process(async (job: BullJob<ScheduleJobData>) => {
+  const { scheduleId } = job.data
+
+  const schedule = await prisma.schedule.findUnique({ where: { id: scheduleId } })
+
+  if (!schedule || !schedule.enabled) {
+    console.log(`⚠️  Schedule ${scheduleId} is gone or disabled, skipping run`)
+    return
+  }
+
+  const now = new Date()
+  await prisma.schedule.update({
+    where: { id: scheduleId },
+    data: {
+      lastRunAt: now,
+      nextRunAt: nextRunTime(schedule.cron, schedule.timezone, now),
+    },
+  })
+
+  // The template was validated when it was saved, but defaults or limits may have changed since
+  const parsed = parseJobConfig(schedule.jobConfig)
+  if ('error' in parsed) {
+    await prisma.systemLog.create({
+      data: {
+        level: 'ERROR',
+        event: 'SCHEDULE_RUN_FAILED',
+        message: `Schedule ${schedule.name} could not create a job: ${parsed.error}`,
+        metadata: { scheduleId },
+      },
+    })
+    console.error(`❌ Schedule ${schedule.name} has an invalid job config: ${parsed.error}`)
+    return
+  }
+
+  const createdJob = await createJob(parsed.config, { scheduleId })
+
+  console.log(`🗓️  Schedule ${schedule.name} created job ${createdJob.id}`)
+})
+
+// Repeats are kept in Redis, add the ones that are missing and drop those of deleted or disabled schedules
+async function syncSchedules(): Promise<void> {
+  try {
+    const schedules = await prisma.schedule.findMany()
+    const enabledIds = new Set(schedules.filter((schedule) => schedule.enabled).map((schedule) => schedule.id))
+
+    for (const repeatable of await scheduleQueue.getRepeatableJobs()) {
+      if (!repeatable.id || !enabledIds.has(repeatable.id)) {
+        await scheduleQueue.removeRepeatableByKey(repeatable.key)
+      }
+    }
+
+    for (const schedule of schedules.filter((schedule) => schedule.enabled)) {
+      await setScheduleRepeat(schedule)
+    }
+
+    console.log(`🗓️  Synced ${enabledIds.size} enabled schedules`)
+  } catch (error) {
+    console.error('Error syncing schedules:', error)
+  }
+}
+
+syncSchedules()
+
+scheduleQueue.on('failed', (job, err) => {
+  console.error(`❌ Schedule run ${job?.id} failed:`, err.message)
+})
+
+console.log('🗓️  Schedule worker started, waiting for schedule runs...')
@@ -1,28 +1,295 @@
 import 'dotenv/config'
-import { scrapeQueue, ScrapeJobData, jobEvents } from '@/services/queue'
-import { GoogleMapsScraper } from '@/services/scraper'
+import os from 'os'
+import {
+  scrapeQueue,
+  taskQueue,
+  ScrapeJobData,
+  ScrapeTaskData,
+  addScrapeTasks,
+  JobPriority,
+  TASK_CONCURRENCY,
+} from '@/services/queue'
+import {
+  GoogleMapsScraper,
+  KnownPlace,
+  ScrapeField,
+  SCRAPE_FIELDS,
+} from '@/services/scraper'
+import { lookupKnownPlace, PlaceBuffer } from '@/services/placeStore'
+import { parsePlaceId, placeLinkFromInput } from '@/services/placeParser'
+import {
+  buildGrid,
+  cellLabel,
+  cellSizeKm,
+  cellViewport,
+  isSaturated,
+  subdivideCell,
+  MIN_CELL_SIZE_KM,
+  SearchArea,
+} from '@/services/grid'
+import { onJobSignal, JobSignal } from '@/services/jobControl'
+import { publishJobEvent } from '@/services/jobEvents'
+import {
+  claimLostWorkers,
+  processTreeMemoryMb,
+  removeWorker,
+  saveWorker,
+  WorkerInfo,
+  WorkerSlot,
+  WORKER_HEARTBEAT_INTERVAL,
+} from '@/services/workerRegistry'
+import {
+  isWithinTimeWindow,
+  jobTimeWindows,
+  nextTimeWindowOpening,
+  TimeWindow,
+} from '@/services/timeWindow'
+import { reconcileJobs, RECONCILE_INTERVAL } from '@/services/reconciler'
+import { failJob, finishJobIfDone } from '@/services/jobFinish'
 import { prisma } from '@/lib/prisma'
 import {
   notifyJobStarted,
   notifyJobCompleted,
   notifyJobFailed,
-  notifyJobPaused,
   notifyCaptchaDetected,
-  notifyMilestone,
 } from '@/services/discord'
 import { Job as BullJob } from 'bull'
 
-// Process jobs with 3 concurrent workers for faster scraping
+type TaskOutcome = 'done' | 'paused' | 'captcha' | 'cancelled' | 'window' | 'shutdown'
+
+const TASK_STATUS: Record<TaskOutcome, string> = {
+  done: 'COMPLETED',
+  paused: 'PAUSED',
+  captcha: 'PAUSED',
+  cancelled: 'CANCELLED',
+  window: 'PENDING',
+  shutdown: 'PENDING',
+}
+
+// Running tasks stop on a job signal, or when this worker shuts down
+type StopSignal = JobSignal | 'shutdown'
+
+const STOP_OUTCOMES: Record<StopSignal, TaskOutcome> = {
+  pause: 'paused',
+  cancel: 'cancelled',
+  shutdown: 'shutdown',
+}
+
+// Time running tasks get to finish their current place when the worker is stopped (ms)
+const SHUTDOWN_TIMEOUT = parseInt(process.env.WORKER_SHUTDOWN_TIMEOUT || '30000')
+
+// Set once SIGINT or SIGTERM arrives, tasks stop after their current place
+let shuttingDown = false
+
+// Stop functions of the tasks running in this process, per job
+const runningTasks = new Map<string, Set<(signal: StopSignal) => void>>()
+
+// Pause and cancel stop the job's running tasks at once, closing their browsers mid-page
+onJobSignal((jobId, signal) => {
+  const stops = runningTasks.get(jobId)
+  if (!stops) return
+
+  console.log(`🛑 Received ${signal} for job ${jobId}, stopping ${stops.size} running tasks`)
+  stops.forEach((stop) => stop(signal))
+})
+
+// This process in the worker registry, log lines name the slot as WORKER_ID#slot
+const WORKER_ID = `${os.hostname()}-${process.pid}`
+const workerStartedAt = new Date()
+
+// Slots of this process that are taken, with the task each one runs once it has started
+const busySlots = new Set<number>()
+const slotTasks = new Map<number, Omit<WorkerSlot, 'slot' | 'browserMemoryMb'> & {
+  getScraper: () => GoogleMapsScraper | null
+}>()
+
+function acquireSlot(): number {
+  let slot = 1
+  while (busySlots.has(slot)) slot++
+  busySlots.add(slot)
+  return slot
+}
+
+function releaseSlot(slot: number): void {
+  busySlots.delete(slot)
+  slotTasks.delete(slot)
+}
+
+// Report this worker to the registry and flag the jobs of workers that stopped reporting
+async function sendHeartbeat(): Promise<void> {
+  try {
+    const running = Array.from(slotTasks.entries()).map(([slot, task]) => ({ slot, task }))
+    const browserPids = running.map(({ task }) => task.getScraper()?.getBrowserPid() ?? null)
+    const browserMemory = await processTreeMemoryMb(
+      browserPids.filter((pid): pid is number => pid !== null)
+    )
+
+    await saveWorker({
+      id: WORKER_ID,
+      hostname: os.hostname(),
+      pid: process.pid,
+      concurrency: TASK_CONCURRENCY,
+      startedAt: workerStartedAt.toISOString(),
+      lastHeartbeat: new Date().toISOString(),
+      memoryMb: Math.round(process.memoryUsage().rss / 1024 / 1024),
+      slots: running.map(({ slot, task }, i) => {
+        const { getScraper, ...info } = task
+        const pid = browserPids[i]
+        return { ...info, slot, browserMemoryMb: pid !== null ? browserMemory.get(pid) ?? null : null }
+      }),
+    })
+
+    for (const lostWorker of await claimLostWorkers()) {
+      await flagLostWorker(lostWorker)
+    }
+  } catch (error) {
+    console.error('Error sending worker heartbeat:', error)
+  }
+}
+
+// Bull runs the stalled tasks of a lost worker again, the flag tells why a job stopped progressing meanwhile
+async function flagLostWorker(worker: WorkerInfo): Promise<void> {
+  console.warn(`⚠️  Worker ${worker.id} stopped sending heartbeats`)
+
+  const jobIds = Array.from(new Set(worker.slots.map((slot) => slot.jobId)))
+  for (const jobId of jobIds) {
+    const { count } = await prisma.job.updateMany({
+      where: { id: jobId, status: 'RUNNING' },
+      data: { workerLostAt: new Date() },
+    })
+    if (count === 0) continue
+
+    await prisma.systemLog.create({
+      data: {
+        jobId,
+        level: 'WARNING',
+        event: 'WORKER_LOST',
+        message: `Worker ${worker.id} stopped sending heartbeats while running ${worker.slots
+          .filter((slot) => slot.jobId === jobId)
+          .map((slot) => slot.keyword || 'place list')
+          .join(', ')}, its tasks run again once they are detected as stalled`,
+      },
+    })
+  }
+}
+
+/**
+ * Split a job into tasks: one per (keyword, location) pair, one per keyword for
+ * grid jobs (their cells are tracked per keyword) and a single task for place lists
+ */
+function planTasks(job: {
+  jobType: string
+  keywords: unknown
+  locations: unknown
+  searchArea: unknown
+}): Array<{
+  keyword: string | null
+  location: string | null
+  keywordIndex: number | null
+  locationIndex: number | null
+}> {
+  if (job.jobType === 'PLACE_LIST') {
+    return [{ keyword: null, location: null, keywordIndex: null, locationIndex: null }]
+  }
+
+  const keywords = Array.isArray(job.keywords) ? (job.keywords as string[]) : []
+  const locations =
+    !job.searchArea && Array.isArray(job.locations) && job.locations.length > 0
+      ? (job.locations as string[])
+      : [null]
+
+  return keywords.flatMap((keyword, keywordIndex) =>
+    locations.map((location, locationIndex) => ({
+      keyword,
+      location,
+      keywordIndex,
+      locationIndex: location === null ? null : locationIndex,
+    }))
+  )
+}
+
+function taskLabel(task: { keyword: string | null; location: string | null }): string {
+  if (!task.keyword) return 'place list'
+  return task.location ? `"${task.keyword}" in "${task.location}"` : `"${task.keyword}"`
+}
+
+// Queue a task again for the next opening of its job's time windows, and show the job as waiting
+async function waitForTimeWindow(
+  job: { id: string; clientName: string; priority: JobPriority; windowTimezone: string },
+  taskId: string,
+  windows: TimeWindow[]
+): Promise<Date> {
+  const opensAt = nextTimeWindowOpening(windows, job.windowTimezone)
+
+  await prisma.jobTask.updateMany({
+    where: { id: taskId },
+    data: { status: 'PENDING' },
+  })
+  await addScrapeTasks(
+    [{ jobId: job.id, taskId, clientName: job.clientName, priority: job.priority }],
+    { delayUntil: opensAt }
+  )
+
+  // Every task of the job stops at the same time, only the first one reports it
+  const { count } = await prisma.job.updateMany({
+    where: { id: job.id, status: { in: ['RUNNING', 'PENDING'] } },
+    data: { status: 'WAITING_WINDOW', windowOpensAt: opensAt, currentKeyword: null },
+  })
+
+  if (count > 0) {
+    await prisma.systemLog.create({
+      data: {
+        jobId: job.id,
+        level: 'INFO',
+        event: 'WAITING_FOR_WINDOW',
+        message: `Outside the job's scraping hours, waiting until ${opensAt.toISOString()}`,
+        metadata: { opensAt: opensAt.toISOString(), timezone: job.windowTimezone },
+      },
+    })
+  }
+
+  return opensAt
+}
+
+// Queue a task again when this worker shuts down, its checkpoint lets any worker continue it
+async function handOverTask(
+  job: { id: string; clientName: string; priority: JobPriority },
+  taskId: string,
+  label: string
+): Promise<void> {
+  await prisma.jobTask.updateMany({
+    where: { id: taskId },
+    data: { status: 'PENDING' },
+  })
+  await addScrapeTasks(
+    [{ jobId: job.id, taskId, clientName: job.clientName, priority: job.priority }],
+    { delayUntil: new Date() }
+  )
+
+  // The job is pending again once none of its tasks runs anywhere
+  await prisma.job.updateMany({
+    where: { id: job.id, status: 'RUNNING', tasks: { none: { status: 'RUNNING' } } },
+    data: { status: 'PENDING', currentKeyword: null },
+  })
+
+  await prisma.systemLog.create({
+    data: {
+      jobId: job.id,
+      level: 'INFO',
+      event: 'WORKER_SHUTDOWN',
+      message: `Worker ${WORKER_ID} shut down during ${label}, the task is queued again and continues from its checkpoint`,
+    },
+  })
+}
+
+// Plan the tasks of a job and queue the ones still to run
 scrapeQueue.process(3, async (job: BullJob<ScrapeJobData>) => {
-  const { jobId, keywords, locations, maxResultsPerKeyword, minDelay, maxDelay } = job.data
+  const { jobId, jobType, keywords, placeInputs, maxResultsPerKeyword } = job.data
 
-  // Generate unique worker ID for debugging
-  const workerId = `Worker-${Math.random().toString(36).substr(2, 4)}`
+  const workerId = WORKER_ID
 
   console.log(`[${workerId}] 🚀 Starting job ${jobId}`)
 
-  let scraper: GoogleMapsScraper | null = null
-
   try {
     // Get job from database
     const dbJob = await prisma.job.findUnique({ where: { id: jobId } })
@@ -37,6 +304,32 @@ scrapeQueue.process(3, async (job: BullJob<ScrapeJobData>) => {
       return
     }
 
+    if (dbJob.status === 'CANCELLED') {
+      console.log(`[${workerId}] 🛑 Job ${jobId} is cancelled, skipping...`)
+      return
+    }
+
+    // Tasks are planned once, a resumed job keeps the ones it has
+    const existingTasks = await prisma.jobTask.count({ where: { jobId } })
+    if (existingTasks === 0) {
+      const tasks = planTasks(dbJob)
+      await prisma.jobTask.createMany({
+        data: tasks.map((task, index) => ({ jobId, index, ...task })),
+      })
+    }
+
+    // Paused and failed tasks run again when the job is resumed
+    await prisma.jobTask.updateMany({
+      where: { jobId, status: { in: ['PAUSED', 'FAILED'] } },
+      data: { status: 'PENDING', errorMessage: null },
+    })
+
+    const pendingTasks = await prisma.jobTask.findMany({
+      where: { jobId, status: 'PENDING' },
+      orderBy: { index: 'asc' },
+      select: { id: true },
+    })
+
     // Update job status to RUNNING
     await prisma.job.update({
       where: { id: jobId },
@@ -53,6 +346,7 @@ scrapeQueue.process(3, async (job: BullJob<ScrapeJobData>) => {
         level: 'INFO',
         event: 'JOB_STARTED',
         message: `Job started for client: ${dbJob.clientName}`,
+        metadata: { tasks: pendingTasks.length },
       },
     })
 
@@ -62,381 +356,783 @@ scrapeQueue.process(3, async (job: BullJob<ScrapeJobData>) => {
       clientName: dbJob.clientName,
       keywords,
       maxResultsPerKeyword,
+      placeCount: jobType === 'PLACE_LIST' ? placeInputs?.length || 0 : undefined,
       estimatedDuration: dbJob.estimatedDuration || undefined,
     })
 
-    // Initialize scraper
-    scraper = new GoogleMapsScraper()
-    await scraper.initialize()
-
-    // Get starting index (for resume capability)
-    const startIndex = dbJob.currentKeywordIndex || 0
-    let totalScraped = dbJob.scrapedCount || 0
-    let totalFailed = dbJob.failedCount || 0
-
-    // Process each keyword
-    for (let i = startIndex; i < keywords.length; i++) {
-      const keyword = keywords[i]
-
-      // Check if job was paused
-      const currentJob = await prisma.job.findUnique({ where: { id: jobId } })
-      if (currentJob?.status === 'PAUSED') {
-        console.log(`[${workerId}] ⏸️  Job ${jobId} was paused, stopping...`)
-        await scraper.close()
-        return
+    await addScrapeTasks(
+      pendingTasks.map((task) => ({
+        jobId,
+        taskId: task.id,
+        clientName: dbJob.clientName,
+        priority: dbJob.priority,
+      }))
+    )
+
+    console.log(`[${workerId}] 📋 Queued ${pendingTasks.length} tasks for job ${jobId}`)
+
+    // A job without tasks left to run is done right away
+    await finishJobIfDone(jobId)
+  } catch (error: any) {
+    console.error(`[${workerId}] ❌ Job ${jobId} failed:`, error)
+
+    await failJob(jobId, error.message || 'Unknown error occurred')
+
+    throw error
+  }
+})
+
+// Run one task of a job in one of this worker's slots
+async function runTask(job: BullJob<ScrapeTaskData>, slot: number): Promise<TaskOutcome | undefined> {
+  const { jobId, taskId } = job.data
+  const workerId = `${WORKER_ID}#${slot}`
+
+  const [dbJob, task] = await Promise.all([
+    prisma.job.findUnique({ where: { id: jobId } }),
+    prisma.jobTask.findUnique({ where: { id: taskId } }),
+  ])
+
+  if (!dbJob || !task) {
+    console.log(`[${workerId}] ⚠️  Task ${taskId} no longer exists, skipping...`)
+    return
+  }
+
+  // Finished tasks queued twice, e.g. by a resume, are not run again
+  if (!['PENDING', 'RUNNING'].includes(task.status)) {
+    return
+  }
+
+  // Tasks of a paused job wait until it is resumed
+  if (dbJob.status === 'PAUSED') {
+    await prisma.jobTask.update({ where: { id: taskId }, data: { status: 'PAUSED' } })
+    console.log(`[${workerId}] ⏸️  Job ${jobId} is paused, skipping task ${task.index + 1}...`)
+    return
+  }
+
+  // A resumed job is PENDING until its tasks are queued again, they may already start
+  if (!['RUNNING', 'PENDING', 'WAITING_WINDOW'].includes(dbJob.status)) {
+    return
+  }
+
+  // Outside the job's scraping hours the task is delayed until the next window opens
+  const timeWindows = jobTimeWindows(dbJob)
+  if (timeWindows && !isWithinTimeWindow(timeWindows, dbJob.windowTimezone)) {
+    const opensAt = await waitForTimeWindow(dbJob, taskId, timeWindows)
+    console.log(`[${workerId}] ⏰ Task ${task.index + 1} of job ${jobId} waits for its window at ${opensAt.toISOString()}`)
+    return
+  }
+
+  // The first task of a new window takes the job out of waiting
+  const { count: windowOpened } = await prisma.job.updateMany({
+    where: { id: jobId, status: 'WAITING_WINDOW' },
+    data: { status: 'RUNNING', windowOpensAt: null },
+  })
+  if (windowOpened > 0) {
+    await prisma.systemLog.create({
+      data: {
+        jobId,
+        level: 'INFO',
+        event: 'WINDOW_OPENED',
+        message: 'Scraping window opened, job continues',
+      },
+    })
+  }
+
+  // A job handed back by a stopped worker, or resumed, is running again once one of its tasks starts
+  await prisma.job.updateMany({
+    where: { id: jobId, status: 'PENDING', startedAt: { not: null } },
+    data: { status: 'RUNNING' },
+  })
+
+  const {
+    jobType,
+    maxResultsPerKeyword,
+    gridCellSizeKm,
+    gridMaxDepth,
+    maxReviewsPerPlace,
+    enrichWebsites,
+  } = dbJob
+  const searchArea = dbJob.searchArea as SearchArea | null
+  const fieldsToScrape = dbJob.fieldsToScrape as string[] | null
+  const label = taskLabel(task)
+
+  console.log(`[${workerId}] 🚀 Starting task ${task.index + 1} of job ${jobId}: ${label}`)
+
+  await prisma.jobTask.update({
+    where: { id: taskId },
+    data: {
+      status: 'RUNNING',
+      startedAt: task.startedAt || new Date(),
+      attempts: { increment: 1 },
+    },
+  })
+
+  // A running task shows the job has a live worker again
+  await prisma.job.update({
+    where: { id: jobId },
+    data: { currentKeyword: task.keyword, workerLostAt: null },
+  })
+
+  await publishJobEvent('job:keyword-started', {
+    jobId,
+    taskId,
+    keyword: task.keyword,
+    location: task.location,
+  })
+
+  let scraper: GoogleMapsScraper | null = null
+
+  // Places and checkpoint of this task, written in batches
+  const placeBuffer = new PlaceBuffer(dbJob, { taskId, logPrefix: `[${workerId}] ` })
+
+  slotTasks.set(slot, {
+    jobId,
+    taskId,
+    clientName: dbJob.clientName,
+    keyword: task.keyword,
+    location: task.location,
+    startedAt: new Date().toISOString(),
+    getScraper: () => scraper,
+  })
+
+  // Set when a pause or cancel signal arrives for the job, or the worker shuts down past its deadline
+  const stopped: { signal: StopSignal | null } = { signal: null }
+  const stopTask = (signal: StopSignal) => {
+    stopped.signal = signal
+    scraper?.abort().catch((error) => console.error(`[${workerId}] Error aborting scraper:`, error))
+  }
+  if (!runningTasks.has(jobId)) {
+    runningTasks.set(jobId, new Set())
+  }
+  runningTasks.get(jobId)!.add(stopTask)
+
+  try {
+    // Initialize scraper with the job's delay and cooldown settings
+    scraper = new GoogleMapsScraper({
+      minDelay: dbJob.minDelay,
+      maxDelay: dbJob.maxDelay,
+      cooldownAfter: dbJob.cooldownAfter,
+      cooldownDuration: dbJob.cooldownDuration,
+      sessionMaxPlaces: dbJob.sessionMaxPlaces,
+      sessionMaxDuration: dbJob.sessionMaxDuration,
+      // Jobs created before field selection existed extract everything
+      fieldsToScrape: fieldsToScrape
+        ? SCRAPE_FIELDS.filter((field: ScrapeField) => fieldsToScrape.includes(field))
+        : undefined,
+      maxReviewsPerPlace,
+      // Activity of the scraper itself for the job's live feed
+      onCooldownStart: (durationMs) => publishJobEvent('job:cooldown-started', { jobId, durationMs }),
+      onCooldownEnd: () => publishJobEvent('job:cooldown-ended', { jobId }),
+      onBrowserRestart: (placesInSession) =>
+        publishJobEvent('job:browser-restarted', { jobId, placesInSession }),
+    })
+
+    // Checked between places: the signal, a worker shutdown, the job status in case the signal was missed, and the time windows
+    const checkStop = async (): Promise<TaskOutcome | null> => {
+      if (stopped.signal) {
+        return STOP_OUTCOMES[stopped.signal]
       }
+      if (shuttingDown) return 'shutdown'
 
-      // Update current keyword
-      await prisma.job.update({
+      const currentJob = await prisma.job.findUnique({
         where: { id: jobId },
+        select: { status: true },
+      })
+      if (!currentJob || currentJob.status === 'CANCELLED') return 'cancelled'
+      if (currentJob.status === 'PAUSED') return 'paused'
+
+      if (timeWindows && !isWithinTimeWindow(timeWindows, dbJob.windowTimezone)) {
+        return 'window'
+      }
+      return null
+    }
+
+    // Buffered places are not stored yet, but count as known
+    const lookupJobPlace = async (placeId: string): Promise<KnownPlace | null> =>
+      placeBuffer.has(placeId) ? 'counted' : lookupKnownPlace(dbJob, placeId)
+
+    // Pause the job until someone resumes it after the CAPTCHA
+    const pauseForCaptcha = async (): Promise<void> => {
+      await publishJobEvent('job:captcha', { jobId, task: label })
+
+      // Other tasks may hit the CAPTCHA at the same time, only the first one reports it
+      const { count } = await prisma.job.updateMany({
+        where: { id: jobId, status: 'RUNNING' },
         data: {
-          currentKeyword: keyword,
-          currentKeywordIndex: i,
+          status: 'PAUSED',
+          pauseReason: 'CAPTCHA detected',
         },
       })
+      if (count === 0) return
 
-      console.log(`[${workerId}] 🔍 Processing keyword ${i + 1}/${keywords.length}: ${keyword}`)
-
-      // Process with or without locations
-      if (locations && locations.length > 0) {
-        for (const location of locations) {
-          try {
-            const places = await scraper.searchPlaces(keyword, location)
-
-            // Limit results per keyword
-            const limitedPlaces = places.slice(0, maxResultsPerKeyword)
-
-            // Save to database
-            for (let placeIndex = 0; placeIndex < limitedPlaces.length; placeIndex++) {
-              const place = limitedPlaces[placeIndex]
-              try {
-                console.log(`[${workerId}] >>> Saving place ${placeIndex + 1}/${limitedPlaces.length}: ${place.name}`)
-
-                const dbStartTime = Date.now()
-                await prisma.scrapedPlace.create({
-                  data: {
-                    jobId,
-                    placeId: place.placeId,
-                    name: place.name,
-                    address: place.address,
-                    city: place.city,
-                    rating: place.rating,
-                    reviewsCount: place.reviewsCount,
-                    phone: place.phone,
-                    website: place.website,
-                    email: place.email,
-                    facebook: place.facebook,
-                    instagram: place.instagram,
-                    twitter: place.twitter,
-                    linkedin: place.linkedin,
-                    plusCode: place.plusCode,
-                    latitude: place.latitude,
-                    longitude: place.longitude,
-                    businessStatus: place.businessStatus,
-                    businessTypes: place.businessTypes || [],
-                    openingHours: place.openingHours || {},
-                    about: place.about,
-                  },
-                })
-                const dbDuration = Date.now() - dbStartTime
-
-                totalScraped++
-                console.log(`[${workerId}] ✓ Saved in ${dbDuration}ms. Total: ${totalScraped}`)
-
-                // Update progress
-                await prisma.job.update({
-                  where: { id: jobId },
-                  data: { scrapedCount: totalScraped },
-                })
-
-                // Emit real-time update
-                jobEvents.emit('job:progress', {
-                  jobId,
-                  scrapedCount: totalScraped,
-                  currentKeyword: keyword,
-                })
-
-                // Milestone notification every 500 places
-                if (totalScraped % 500 === 0) {
-                  await notifyMilestone({
-                    id: jobId,
-                    clientName: dbJob.clientName,
-                    scrapedCount: totalScraped,
-                    totalEstimated: keywords.length * maxResultsPerKeyword,
-                  })
-                }
-              } catch (error: any) {
-                // Handle duplicate place_id
-                if (error.code === 'P2002') {
-                  console.log(`[${workerId}] ⚠️  Duplicate place: ${place.name} (${place.placeId})`)
-                  continue
-                }
-                throw error
-              }
-            }
+      const { scrapedCount } = await prisma.job.findUniqueOrThrow({
+        where: { id: jobId },
+        select: { scrapedCount: true },
+      })
 
-            console.log(
-              `[${workerId}] ✅ Scraped ${limitedPlaces.length} places for "${keyword}" in "${location}"`
-            )
-          } catch (error: any) {
-            if (error.message === 'CAPTCHA_DETECTED') {
-              // Pause job and notify
-              await prisma.job.update({
-                where: { id: jobId },
-                data: {
-                  status: 'PAUSED',
-                  pauseReason: 'CAPTCHA detected',
-                },
-              })
+      await notifyCaptchaDetected({
+        id: jobId,
+        clientName: dbJob.clientName,
+        scrapedCount,
+      })
 
-              await notifyCaptchaDetected({
-                id: jobId,
-                clientName: dbJob.clientName,
-                scrapedCount: totalScraped,
-              })
+      await prisma.systemLog.create({
+        data: {
+          jobId,
+          level: 'CRITICAL',
+          event: 'CAPTCHA_DETECTED',
+          message: `CAPTCHA detected during ${label}, job paused`,
+        },
+      })
+    }
 
-              await prisma.systemLog.create({
-                data: {
-                  jobId,
-                  level: 'CRITICAL',
-                  event: 'CAPTCHA_DETECTED',
-                  message: 'CAPTCHA detected, job paused',
-                },
-              })
+    const recordFailure = async (
+      target: {
+        keyword?: string
+        location?: string
+        placeInput?: string
+        placeId?: string
+        placeName?: string
+      },
+      error: { name?: string; message?: string }
+    ) => {
+      await prisma.failedScrape.create({
+        data: {
+          jobId,
+          ...target,
+          errorType: error.name || 'UNKNOWN_ERROR',
+          errorMessage: error.message || 'Unknown error occurred',
+        },
+      })
 
-              await scraper.close()
-              return
-            }
+      await prisma.job.update({
+        where: { id: jobId },
+        data: { failedCount: { increment: 1 } },
+      })
+      await prisma.jobTask.update({
+        where: { id: taskId },
+        data: { failedCount: { increment: 1 } },
+      })
+    }
+
+    // Search one keyword, optionally in one location, saving each place as soon as it is extracted
+    const runSearch = async (keyword: string, location: string | undefined): Promise<TaskOutcome> => {
+      let placesInSearch = 0
 
-            // Log failed scrape
-            await prisma.failedScrape.create({
-              data: {
-                jobId,
+      // A resumed or retried task continues after the last place it processed
+      const checkpoint = Array.isArray(task.placeLinks)
+        ? { placeLinks: task.placeLinks as string[], lastPlaceLink: task.lastPlaceLink }
+        : undefined
+
+      try {
+        const places = scraper!.searchPlaces(keyword, location, {
+          maxResults: maxResultsPerKeyword,
+          lookupKnownPlace: lookupJobPlace,
+          onPlaceFailed: ({ link, placeId, placeName, error }) =>
+            recordFailure(
+              {
                 keyword,
                 location,
-                errorType: error.name || 'UNKNOWN_ERROR',
-                errorMessage: error.message || 'Unknown error occurred',
+                placeInput: link,
+                placeId: placeId || undefined,
+                placeName: placeName || undefined,
               },
-            })
-
-            totalFailed++
+              error
+            ),
+          // Places another job stored are linked to this job without a visit
+          onSharedPlace: async (shared) => {
+            if (await placeBuffer.addShared(shared, { keyword, location })) {
+              placesInSearch++
+            }
+          },
+          checkpoint,
+          onCheckpoint: async ({ placeLinks, lastPlaceLink }) => {
+            // The last processed link is written with the buffered places it covers
+            if (lastPlaceLink) {
+              placeBuffer.setCheckpoint({ lastPlaceLink })
+              return
+            }
 
-            await prisma.job.update({
-              where: { id: jobId },
-              data: { failedCount: totalFailed },
+            // The links only change when the feed is loaded
+            await prisma.jobTask.update({
+              where: { id: taskId },
+              data: { placeLinks, lastPlaceLink },
             })
+          },
+        })
+
+        for await (const place of places) {
+          placesInSearch++
+          console.log(`[${workerId}] >>> Saving place ${placesInSearch}: ${place.name}`)
+          await placeBuffer.add(place, { keyword, location })
 
-            console.error(`[${workerId}] ❌ Failed to scrape "${keyword}" in "${location}":`, error)
+          // Check if job was paused or cancelled
+          const stopOutcome = await checkStop()
+          if (stopOutcome) {
+            return stopOutcome
           }
         }
-      } else {
-        // No locations specified
+      } catch (error: any) {
+        if (error.message === 'CAPTCHA_DETECTED') {
+          return 'captcha'
+        }
+        throw error
+      }
+
+      console.log(`[${workerId}] ✅ Scraped ${placesInSearch} places for ${label}`)
+      return 'done'
+    }
+
+    // Search every cell of the area, splitting saturated cells, until the keyword limit is reached
+    const runGridSearch = async (keyword: string, area: SearchArea): Promise<TaskOutcome> => {
+      const maxDepth = gridMaxDepth ?? 3
+
+      // Cells are stored, so a resumed job continues with the cells it has not searched yet
+      const existingCells = await prisma.searchCell.count({ where: { jobId, keyword } })
+      if (existingCells === 0) {
+        const cells = buildGrid(area, gridCellSizeKm ?? 2)
+        await prisma.searchCell.createMany({
+          data: cells.map((cell) => ({ jobId, keyword, ...cell })),
+        })
+        console.log(`[${workerId}] 🗺️  Split the search area into ${cells.length} cells`)
+      }
+
+      // Cells interrupted by a crash or pause are searched again
+      await prisma.searchCell.updateMany({
+        where: { jobId, keyword, status: 'RUNNING' },
+        data: { status: 'PENDING' },
+      })
+
+      const saved = await prisma.searchCell.aggregate({
+        where: { jobId, keyword },
+        _sum: { newPlaces: true },
+      })
+      let keywordScraped = saved._sum.newPlaces || 0
+
+      // Places found in an earlier cell are never visited or counted again, places of other jobs are linked
+      const lookupGridPlace = async (placeId: string): Promise<KnownPlace | null> => {
+        const known = await lookupJobPlace(placeId)
+        return known === 'counted' ? 'ignored' : known
+      }
+
+      while (keywordScraped < maxResultsPerKeyword) {
+        // Check if job was paused or cancelled
+        const stopOutcome = await checkStop()
+        if (stopOutcome) {
+          return stopOutcome
+        }
+
+        const cell = await prisma.searchCell.findFirst({
+          where: { jobId, keyword, status: 'PENDING' },
+          orderBy: [{ depth: 'asc' }, { createdAt: 'asc' }],
+        })
+        if (!cell) break
+
+        await prisma.searchCell.update({ where: { id: cell.id }, data: { status: 'RUNNING' } })
+
+        const cellName = cellLabel(cell)
+        const canSubdivide = cell.depth < maxDepth && cellSizeKm(cell) / 2 >= MIN_CELL_SIZE_KM
+        let saturated = false
+        let newPlaces = cell.newPlaces
+
         try {
-          const places = await scraper.searchPlaces(keyword)
-
-          const limitedPlaces = places.slice(0, maxResultsPerKeyword)
-
-          for (let placeIndex = 0; placeIndex < limitedPlaces.length; placeIndex++) {
-            const place = limitedPlaces[placeIndex]
-            try {
-              console.log(`[${workerId}] >>> Saving place ${placeIndex + 1}/${limitedPlaces.length}: ${place.name}`)
-
-              const dbStartTime = Date.now()
-              await prisma.scrapedPlace.create({
-                data: {
-                  jobId,
-                  placeId: place.placeId,
-                  name: place.name,
-                  address: place.address,
-                  city: place.city,
-                  rating: place.rating,
-                  reviewsCount: place.reviewsCount,
-                  phone: place.phone,
-                  website: place.website,
-                  email: place.email,
-                  facebook: place.facebook,
-                  instagram: place.instagram,
-                  twitter: place.twitter,
-                  linkedin: place.linkedin,
-                  plusCode: place.plusCode,
-                  latitude: place.latitude,
-                  longitude: place.longitude,
-                  businessStatus: place.businessStatus,
-                  businessTypes: place.businessTypes || [],
-                  openingHours: place.openingHours || {},
-                  about: place.about,
+          const places = scraper!.searchPlaces(keyword, undefined, {
+            maxResults: maxResultsPerKeyword - keywordScraped,
+            lookupKnownPlace: lookupGridPlace,
+            viewport: cellViewport(cell),
+            onPlaceFailed: ({ link, placeId, placeName, error }) =>
+              recordFailure(
+                {
+                  keyword,
+                  location: cellName,
+                  placeInput: link,
+                  placeId: placeId || undefined,
+                  placeName: placeName || undefined,
                 },
+                error
+              ),
+            onSharedPlace: async (shared) => {
+              if (await placeBuffer.addShared(shared, { keyword, location: cellName })) {
+                newPlaces++
+                keywordScraped++
+              }
+            },
+            onFeedLoaded: async (feed) => {
+              await prisma.searchCell.update({
+                where: { id: cell.id },
+                data: { resultsCount: feed.resultsCount },
               })
-              const dbDuration = Date.now() - dbStartTime
-
-              totalScraped++
-              console.log(`[${workerId}] ✓ Saved in ${dbDuration}ms. Total: ${totalScraped}`)
+              // A saturated cell is split instead of searched, its quadrants list what it could not
+              saturated = canSubdivide && isSaturated(feed)
+              return !saturated
+            },
+          })
 
-              await prisma.job.update({
-                where: { id: jobId },
-                data: { scrapedCount: totalScraped },
-              })
+          for await (const place of places) {
+            console.log(`[${workerId}] >>> Saving place from ${cellName}: ${place.name}`)
+            if (await placeBuffer.add(place, { keyword, location: cellName })) {
+              newPlaces++
+              keywordScraped++
+            }
 
-              jobEvents.emit('job:progress', {
-                jobId,
-                scrapedCount: totalScraped,
-                currentKeyword: keyword,
+            // Check if job was paused or cancelled, the cell is searched again when the task continues
+            const stopOutcome = await checkStop()
+            if (stopOutcome) {
+              await placeBuffer.flush()
+              await prisma.searchCell.update({
+                where: { id: cell.id },
+                data: { status: 'PENDING', newPlaces },
               })
-
-              if (totalScraped % 500 === 0) {
-                await notifyMilestone({
-                  id: jobId,
-                  clientName: dbJob.clientName,
-                  scrapedCount: totalScraped,
-                  totalEstimated: keywords.length * maxResultsPerKeyword,
-                })
-              }
-            } catch (error: any) {
-              if (error.code === 'P2002') {
-                console.log(`[${workerId}] ⚠️  Duplicate place: ${place.name} (${place.placeId})`)
-                continue
-              }
-              throw error
+              return stopOutcome
             }
           }
 
-          console.log(`[${workerId}] ✅ Scraped ${limitedPlaces.length} places for "${keyword}"`)
+          // The cell is only marked as searched once its places are stored
+          await placeBuffer.flush()
+
+          if (saturated) {
+            const children = subdivideCell(cell, area)
+            await prisma.searchCell.createMany({
+              data: children.map((child) => ({ jobId, keyword, parentId: cell.id, ...child })),
+            })
+            await prisma.searchCell.update({
+              where: { id: cell.id },
+              data: { status: 'SUBDIVIDED', completedAt: new Date() },
+            })
+            console.log(`[${workerId}] ⊞ ${cellName} is saturated, split into ${children.length} cells`)
+          } else {
+            await prisma.searchCell.update({
+              where: { id: cell.id },
+              data: { status: 'DONE', newPlaces, completedAt: new Date() },
+            })
+            console.log(`[${workerId}] ✅ ${cellName}: ${newPlaces} new places`)
+          }
         } catch (error: any) {
+          if (stopped.signal) {
+            throw error
+          }
+
           if (error.message === 'CAPTCHA_DETECTED') {
-            await prisma.job.update({
-              where: { id: jobId },
-              data: {
-                status: 'PAUSED',
-                pauseReason: 'CAPTCHA detected',
-              },
+            await prisma.searchCell.update({
+              where: { id: cell.id },
+              data: { status: 'PENDING', newPlaces },
             })
+            return 'captcha'
+          }
 
-            await notifyCaptchaDetected({
-              id: jobId,
-              clientName: dbJob.clientName,
-              scrapedCount: totalScraped,
-            })
+          await prisma.searchCell.update({
+            where: { id: cell.id },
+            data: { status: 'FAILED', newPlaces, completedAt: new Date() },
+          })
+          await recordFailure({ keyword, location: cellName }, error)
 
-            await prisma.systemLog.create({
-              data: {
-                jobId,
-                level: 'CRITICAL',
-                event: 'CAPTCHA_DETECTED',
-                message: 'CAPTCHA detected, job paused',
-              },
+          console.error(`[${workerId}] ❌ Failed to scrape ${cellName}:`, error)
+        }
+      }
+
+      console.log(`[${workerId}] ✅ Grid search for "${keyword}" done: ${keywordScraped} places`)
+      return 'done'
+    }
+
+    // Scrape each place of a place list job, refreshing places that are already stored
+    const runPlaceList = async (inputs: string[]): Promise<TaskOutcome> => {
+      let refreshed = 0
+      let failed = 0
+
+      // Continue after the last input the checkpoint covers, it is written with the buffered places
+      // while currentKeywordIndex is written right away and can be ahead of places that were never stored
+      const startIndex = task.lastPlaceLink !== null ? inputs.indexOf(task.lastPlaceLink) + 1 : 0
+
+      for (let i = startIndex; i < inputs.length; i++) {
+        const input = inputs[i]
+
+        // Check if job was paused or cancelled
+        const stopOutcome = await checkStop()
+        if (stopOutcome) {
+          return stopOutcome
+        }
+
+        await prisma.job.update({
+          where: { id: jobId },
+          data: { currentKeyword: input, currentKeywordIndex: i },
+        })
+
+        console.log(`[${workerId}] 📍 Place ${i + 1}/${inputs.length}: ${input}`)
+
+        const target = {
+          placeInput: input,
+          placeId: parsePlaceId(placeLinkFromInput(input) || input) || undefined,
+        }
+
+        try {
+          const place = await scraper!.scrapePlace(input)
+
+          if (place) {
+            await placeBuffer.add(place, { refresh: true })
+            refreshed++
+          } else {
+            await recordFailure(target, {
+              name: 'EXTRACTION_FAILED',
+              message: 'No place data found on the page',
             })
+            failed++
+          }
+        } catch (error: any) {
+          if (stopped.signal) {
+            throw error
+          }
 
-            await scraper.close()
-            return
+          if (error.message === 'CAPTCHA_DETECTED') {
+            return 'captcha'
           }
 
-          await prisma.failedScrape.create({
-            data: {
-              jobId,
-              keyword,
-              errorType: error.name || 'UNKNOWN_ERROR',
-              errorMessage: error.message || 'Unknown error occurred',
-            },
-          })
+          await recordFailure(target, error)
+          failed++
 
-          totalFailed++
+          console.error(`[${workerId}] ❌ Failed to scrape ${input}:`, error.message)
+        }
 
-          await prisma.job.update({
-            where: { id: jobId },
-            data: { failedCount: totalFailed },
-          })
+        placeBuffer.setCheckpoint({ lastPlaceLink: input })
+      }
 
-          console.error(`[${workerId}] ❌ Failed to scrape "${keyword}":`, error)
-        }
+      await prisma.systemLog.create({
+        data: {
+          jobId,
+          level: 'INFO',
+          event: 'PLACE_LIST_PROCESSED',
+          message: `Place list processed: ${refreshed} scraped, ${failed} failed`,
+        },
+      })
+
+      return 'done'
+    }
+
+    let outcome: TaskOutcome
+    try {
+      await scraper.initialize()
+
+      if (jobType === 'PLACE_LIST') {
+        const inputs = Array.isArray(dbJob.placeInputs) ? (dbJob.placeInputs as string[]) : []
+        outcome = await runPlaceList(inputs)
+      } else if (searchArea) {
+        outcome = await runGridSearch(task.keyword!, searchArea)
+      } else {
+        outcome = await runSearch(task.keyword!, task.location || undefined)
+      }
+    } catch (error: any) {
+      // Closing the browser for a pause, cancel or shutdown makes the current page fail
+      if (!stopped.signal) {
+        throw error
       }
+      outcome = STOP_OUTCOMES[stopped.signal]
     }
 
-    // Job completed successfully
-    const completedAt = new Date()
-    const startedAt = dbJob.startedAt || new Date()
-    const duration = Math.floor((completedAt.getTime() - startedAt.getTime()) / 1000)
+    // A run can also return normally after the stop, e.g. when it only noticed the closed browser as an empty page
+    if (stopped.signal) {
+      outcome = STOP_OUTCOMES[stopped.signal]
+    }
 
-    await prisma.job.update({
-      where: { id: jobId },
-      data: {
-        status: 'COMPLETED',
-        completedAt,
-      },
-    })
+    // Places scraped before the task stopped are kept, whatever the reason
+    await placeBuffer.flush()
 
-    await prisma.systemLog.create({
+    // The checkpoint is saved, the task continues from it on the next worker that picks it up
+    if (outcome === 'shutdown') {
+      await handOverTask(dbJob, taskId, label)
+      console.log(`[${workerId}] 💤 Task ${task.index + 1} of job ${jobId} stopped for shutdown, queued again: ${label}`)
+      return outcome
+    }
+
+    // The checkpoint is saved, the task continues from it in the next window
+    if (outcome === 'window') {
+      const opensAt = await waitForTimeWindow(dbJob, taskId, timeWindows!)
+      console.log(`[${workerId}] ⏰ Task ${task.index + 1} of job ${jobId} stopped at the end of its window, continues at ${opensAt.toISOString()}`)
+      return outcome
+    }
+
+    if (outcome === 'captcha') {
+      await pauseForCaptcha()
+    }
+
+    // The task is gone when its job was deleted while it ran
+    await prisma.jobTask.updateMany({
+      where: { id: taskId },
       data: {
-        jobId,
-        level: 'INFO',
-        event: 'JOB_COMPLETED',
-        message: `Job completed. Scraped ${totalScraped} places, ${totalFailed} failed`,
+        status: TASK_STATUS[outcome],
+        completedAt: outcome === 'done' || outcome === 'cancelled' ? new Date() : undefined,
       },
     })
 
-    await notifyJobCompleted({
-      id: jobId,
-      clientName: dbJob.clientName,
-      scrapedCount: totalScraped,
-      failedCount: totalFailed,
-      duration,
-    })
-
-    jobEvents.emit('job:completed', { jobId })
+    if (outcome === 'done') {
+      console.log(`[${workerId}] ✅ Task ${task.index + 1} of job ${jobId} completed: ${label}`)
+    } else if (outcome === 'cancelled') {
+      console.log(`[${workerId}] 🛑 Task ${task.index + 1} of job ${jobId} cancelled: ${label}`)
+    } else {
+      console.log(`[${workerId}] ⏸️  Task ${task.index + 1} of job ${jobId} paused: ${label}`)
+    }
 
-    console.log(`[${workerId}] 🎉 Job ${jobId} completed successfully`)
+    return outcome
   } catch (error: any) {
-    console.error(`[${workerId}] ❌ Job ${jobId} failed:`, error)
+    console.error(`[${workerId}] ❌ Task ${task.index + 1} of job ${jobId} failed:`, error)
 
-    // Update job status to FAILED
-    await prisma.job.update({
-      where: { id: jobId },
-      data: {
-        status: 'FAILED',
-        errorMessage: error.message || 'Unknown error occurred',
-      },
+    // Places scraped before the error are kept, a retry continues after them
+    await placeBuffer.flush().catch((flushError) => {
+      console.error(`[${workerId}] Error saving buffered places:`, flushError)
     })
 
-    await prisma.systemLog.create({
+    // Bull retries the task, after the last attempt it is recorded as failed
+    const finalAttempt = job.attemptsMade + 1 >= (job.opts.attempts || 1)
+
+    await prisma.jobTask.update({
+      where: { id: taskId },
       data: {
-        jobId,
-        level: 'ERROR',
-        event: 'JOB_FAILED',
-        message: error.message || 'Job failed with unknown error',
+        status: finalAttempt ? 'FAILED' : 'PENDING',
+        errorMessage: error.message || 'Unknown error occurred',
+        completedAt: finalAttempt ? new Date() : undefined,
       },
     })
 
-    const dbJob = await prisma.job.findUnique({ where: { id: jobId } })
+    if (finalAttempt) {
+      await prisma.failedScrape.create({
+        data: {
+          jobId,
+          keyword: task.keyword,
+          location: task.location,
+          errorType: error.name || 'UNKNOWN_ERROR',
+          errorMessage: error.message || 'Unknown error occurred',
+        },
+      })
 
-    if (dbJob) {
-      await notifyJobFailed({
-        id: jobId,
-        clientName: dbJob.clientName,
-        error: error.message || 'Unknown error',
-        scrapedCount: dbJob.scrapedCount,
+      await prisma.job.update({
+        where: { id: jobId },
+        data: { failedCount: { increment: 1 } },
       })
-    }
 
-    jobEvents.emit('job:failed', { jobId, error: error.message })
+      await prisma.systemLog.create({
+        data: {
+          jobId,
+          level: 'ERROR',
+          event: 'TASK_FAILED',
+          message: `Task ${label} failed: ${error.message || 'Unknown error'}`,
+        },
+      })
+    }
 
     throw error
   } finally {
+    const stops = runningTasks.get(jobId)
+    stops?.delete(stopTask)
+    if (stops?.size === 0) {
+      runningTasks.delete(jobId)
+    }
+
     if (scraper) {
       await scraper.close()
     }
+
+    await finishJobIfDone(jobId)
+  }
+}
+
+taskQueue.process(TASK_CONCURRENCY, async (job: BullJob<ScrapeTaskData>) => {
+  const slot = acquireSlot()
+  try {
+    return await runTask(job, slot)
+  } finally {
+    releaseSlot(slot)
   }
 })
 
 // Queue event handlers
 scrapeQueue.on('completed', (job) => {
-  console.log(`✅ Job ${job.id} completed`)
+  console.log(`✅ Job ${job.id} queued its tasks`)
 })
 
 scrapeQueue.on('failed', (job, err) => {
   console.error(`❌ Job ${job?.id} failed:`, err)
 })
 
-scrapeQueue.on('stalled', (job) => {
-  console.warn(`⚠️  Job ${job.id} stalled`)
+// Cancelled tasks are removed from the queue once they have stopped
+taskQueue.on('completed', (job, result) => {
+  if (result === 'cancelled') {
+    job.remove().catch((error) => console.error(`Error removing task ${job.id}:`, error))
+  }
+})
+
+taskQueue.on('failed', (job, err) => {
+  console.error(`❌ Task ${job?.id} failed:`, err.message)
+})
+
+taskQueue.on('stalled', (job) => {
+  console.warn(`⚠️  Task ${job.id} stalled`)
 })
 
-console.log('🤖 Scrape worker started with 3 concurrent workers - listening for jobs...')
+const heartbeatInterval = setInterval(sendHeartbeat, WORKER_HEARTBEAT_INTERVAL)
+sendHeartbeat()
+
+// Repair jobs whose database status drifted from the queues, at startup and periodically
+async function runReconciler(): Promise<void> {
+  try {
+    const result = await reconcileJobs({ owner: WORKER_ID, finishJob: finishJobIfDone })
+    if (result && result.corrected > 0) {
+      console.log(`🔧 Reconciled ${result.corrected} of ${result.checked} unfinished jobs`)
+    }
+  } catch (error) {
+    console.error('Error reconciling jobs:', error)
+  }
+}
+
+const reconcileInterval = setInterval(runReconciler, RECONCILE_INTERVAL)
+runReconciler()
+
+/**
+ * Stop taking new tasks, let running tasks finish their current place and queue them again,
+ * then leave. Tasks still running at the deadline have their browsers closed, the checkpoint
+ * of their last place is kept. A second signal exits right away.
+ */
+async function shutdown(signal: NodeJS.Signals): Promise<void> {
+  if (shuttingDown) {
+    console.warn(`⚠️  Received ${signal} again, exiting without waiting for running tasks`)
+    process.exit(1)
+  }
+  shuttingDown = true
+
+  console.log(`🛑 Received ${signal}, stopping ${busySlots.size} running tasks after their current place...`)
+
+  const deadline = setTimeout(() => {
+    console.warn(`⚠️  Tasks still running after ${SHUTDOWN_TIMEOUT}ms, closing their browsers`)
+    runningTasks.forEach((stops) => stops.forEach((stop) => stop('shutdown')))
+
+    // A task that does not stop after its browser is closed is left to Bull's stalled check
+    setTimeout(() => {
+      console.error('❌ Running tasks did not stop, exiting anyway')
+      process.exit(1)
+    }, 10000).unref()
+  }, SHUTDOWN_TIMEOUT)
+
+  try {
+    // Only this worker stops taking jobs, running ones are waited for below
+    await Promise.all([scrapeQueue.pause(true, true), taskQueue.pause(true, true)])
+
+    while (busySlots.size > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 500))
+    }
+    clearTimeout(deadline)
+
+    clearInterval(heartbeatInterval)
+    clearInterval(reconcileInterval)
+    await Promise.all([scrapeQueue.close(), taskQueue.close()])
+    await removeWorker(WORKER_ID)
+    await prisma.$disconnect()
+  } catch (error) {
+    console.error('Error during shutdown:', error)
+    process.exit(1)
+  }
+
+  console.log('👋 Scrape worker stopped')
+  process.exit(0)
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
+
+console.log(`🤖 Scrape worker ${WORKER_ID} started with ${TASK_CONCURRENCY} concurrent workers - listening for jobs...`)